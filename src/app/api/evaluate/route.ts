@@ -7,20 +7,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { evaluateResponse } from '@/lib/azure-openai';
+import { getAssignedPromptRef } from '@/lib/prompt-registry';
+import { saveEvaluationVersion, toEvaluationQuestionInput, toRubricResult } from '@/lib/evaluations';
+import { getSpeechMetrics } from '@/lib/speech-metrics';
+import { toInterviewLanguage } from '@/lib/languages';
 import type { ApiResponse, EvaluateResponseRequest, EvaluateResponseResponse } from '@/types/api';
 import type { SeniorityLevel } from '@/types/interview';
 
-/**
- * Get performance band based on score
- */
-function getPerformanceBand(score: number): string {
-  if (score >= 90) return 'excellent';
-  if (score >= 75) return 'good';
-  if (score >= 60) return 'satisfactory';
-  if (score >= 40) return 'needs-work';
-  return 'poor';
-}
-
 /**
  * POST /api/evaluate
  * Evaluate a response using Azure OpenAI and save to database
@@ -85,8 +78,9 @@ export async function POST(
     }
 
     // Check if we already have an evaluation for this response
-    const existingEvaluation = await prisma.responseEvaluation.findUnique({
-      where: { responseId },
+    const existingEvaluation = await prisma.responseEvaluation.findFirst({
+      where: { responseId, isCurrent: true },
+      orderBy: { version: 'desc' },
     });
 
     if (existingEvaluation) {
@@ -109,17 +103,28 @@ export async function POST(
             improvements: existingEvaluation.improvements,
             suggestion: existingEvaluation.suggestion,
           },
+          rubricResult: toRubricResult(existingEvaluation),
         },
       });
     }
 
     // Convert database question to format expected by evaluateResponse function
-    const questionForEval = {
-      question: question.question,
-      category: question.category as 'technical' | 'system-design' | 'behavioral' | 'problem-solving',
-      difficulty: question.difficulty as 'junior' | 'mid' | 'senior',
-      expectedTopics: question.expectedTopics,
-    };
+    const questionForEval = toEvaluationQuestionInput(question);
+
+    const language = toInterviewLanguage(session.language);
+
+    // Delivery metrics saved with the recording, if the response was synced
+    const savedResponse = await prisma.questionResponse.findUnique({
+      where: { id: responseId },
+      select: { durationSeconds: true, wordTimings: true, speechMetrics: true },
+    });
+    const speechMetrics = getSpeechMetrics({
+      transcription,
+      durationSeconds: savedResponse?.durationSeconds ?? null,
+      wordTimings: savedResponse?.wordTimings,
+      speechMetrics: savedResponse?.speechMetrics,
+      language,
+    });
 
     console.log(`Evaluating response ${responseId} for question ${questionId}...`);
 
@@ -128,28 +133,12 @@ export async function POST(
       questionForEval,
       transcription,
       session.roleTitle,
-      session.seniorityLevel as SeniorityLevel
+      session.seniorityLevel as SeniorityLevel,
+      { promptRef: getAssignedPromptRef(session.promptVersions, 'evaluation'), speechMetrics, language }
     );
 
     // Save evaluation to database
-    const evaluation = await prisma.responseEvaluation.create({
-      data: {
-        responseId,
-        questionId,
-        sessionId,
-        relevanceScore: aiEvaluation.scores.relevance,
-        technicalAccuracyScore: aiEvaluation.scores.technicalAccuracy,
-        clarityScore: aiEvaluation.scores.clarity,
-        depthScore: aiEvaluation.scores.depth,
-        structureScore: aiEvaluation.scores.structure,
-        confidenceScore: aiEvaluation.scores.confidence,
-        overallScore: aiEvaluation.overallScore,
-        strengths: aiEvaluation.feedback.strengths,
-        improvements: aiEvaluation.feedback.improvements,
-        suggestion: aiEvaluation.feedback.suggestion,
-        performanceBand: getPerformanceBand(aiEvaluation.overallScore),
-      },
-    });
+    const evaluation = await saveEvaluationVersion({ responseId, questionId, sessionId }, aiEvaluation);
 
     console.log(`Saved evaluation ${evaluation.id} with score ${evaluation.overallScore}`);
 
@@ -161,6 +150,7 @@ export async function POST(
           scores: aiEvaluation.scores,
           overallScore: aiEvaluation.overallScore,
           feedback: aiEvaluation.feedback,
+          rubricResult: aiEvaluation.rubric,
         },
       },
       { status: 201 }
@@ -192,8 +182,9 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
     // Get evaluation by response ID
     if (responseId) {
-      const evaluation = await prisma.responseEvaluation.findUnique({
-        where: { responseId },
+      const evaluation = await prisma.responseEvaluation.findFirst({
+        where: { responseId, isCurrent: true },
+        orderBy: { version: 'desc' },
         include: {
           question: {
             select: {
@@ -248,7 +239,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     // Get all evaluations for a session
     if (sessionId) {
       const evaluations = await prisma.responseEvaluation.findMany({
-        where: { sessionId },
+        where: { sessionId, isCurrent: true },
         include: {
           question: {
             select: {
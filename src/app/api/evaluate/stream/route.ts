@@ -0,0 +1,141 @@
+// =========================================================================
+// AI Tech Interview - Streaming Evaluate API Route
+// GET: Evaluate all responses for a session, streaming each result as a
+// server-sent event as soon as it is persisted
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadSessionForEvaluation, toResponseEvaluation } from '@/lib/evaluations';
+import { runBatchEvaluation } from '@/lib/batch-evaluator';
+import type { EvaluationStreamEvent } from '@/types/api';
+
+/**
+ * Format an event using the SSE wire format
+ */
+function formatEvent(event: EvaluationStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * GET /api/evaluate/stream?sessionId=xxx
+ * Evaluate all responses for a session and stream results.
+ * Events: `evaluation`, `evaluation-failed`, `complete`, `stream-error`.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+
+  if (!sessionId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Session ID is required',
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  let session;
+  try {
+    session = await loadSessionForEvaluation(sessionId);
+  } catch (error) {
+    console.error('Error loading session for streaming evaluation:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to load session',
+        },
+      },
+      { status: 500 }
+    );
+  }
+
+  if (!session) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'SESSION_NOT_FOUND',
+          message: 'Session not found',
+        },
+      },
+      { status: 404 }
+    );
+  }
+
+  console.log(`Streaming evaluation for session ${sessionId}`);
+
+  const encoder = new TextEncoder();
+
+  // Aborted when the client disconnects, so no new AI calls are started
+  const abortController = new AbortController();
+  request.signal.addEventListener('abort', () => abortController.abort());
+  const isClosed = () => abortController.signal.aborted;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: EvaluationStreamEvent) => {
+        if (!isClosed()) {
+          controller.enqueue(encoder.encode(formatEvent(event)));
+        }
+      };
+
+      try {
+        const { summary, aborted } = await runBatchEvaluation(session, {
+          signal: abortController.signal,
+          onResult: ({ question, evaluation }) => {
+            send({
+              type: 'evaluation',
+              data: {
+                questionId: question.id,
+                questionNumber: question.questionNumber,
+                evaluation: toResponseEvaluation(evaluation),
+              },
+            });
+          },
+          onFailure: ({ question, responseId, message }) => {
+            send({
+              type: 'evaluation-failed',
+              data: {
+                questionId: question.id,
+                questionNumber: question.questionNumber,
+                responseId,
+                message,
+              },
+            });
+          },
+        });
+
+        if (aborted) {
+          console.log(`Client disconnected, stopped evaluation for session ${sessionId}`);
+        } else {
+          send({ type: 'complete', data: summary });
+        }
+      } catch (error) {
+        console.error('Error in streaming evaluation:', error);
+        send({
+          type: 'stream-error',
+          data: { message: error instanceof Error ? error.message : 'Failed to evaluate responses' },
+        });
+      } finally {
+        if (!isClosed()) controller.close();
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
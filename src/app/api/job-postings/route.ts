@@ -0,0 +1,58 @@
+// =========================================================================
+// AI Tech Interview - Job Posting Import API Route
+// POST: Extract the text of an uploaded job posting (PDF, DOCX, HTML, Markdown)
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { extractUploadedDocument } from '@/lib/document-text';
+import { extractJobPosting } from '@/lib/job-posting';
+import type { ApiResponse, ExtractJobPostingResponse } from '@/types/api';
+
+/**
+ * POST /api/job-postings
+ * Accepts multipart/form-data with a `file` field. Nothing is stored: the
+ * extracted text is returned for the user to review and edit, then sent
+ * to POST /api/sessions as `jobDescription`.
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ExtractJobPostingResponse>>> {
+  try {
+    const upload = await extractUploadedDocument(
+      request,
+      { label: 'job posting', fallback: 'the job description' },
+      extractJobPosting
+    );
+
+    if (!upload.success) {
+      return NextResponse.json({ success: false, error: upload.error }, { status: upload.status });
+    }
+
+    const { fileName, format, extracted: posting } = upload;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        fileName,
+        format,
+        jobDescription: posting.text,
+        roleTitle: posting.roleTitle,
+        companyName: posting.companyName,
+        truncated: posting.truncated,
+      },
+    });
+  } catch (error) {
+    console.error('Error importing job posting:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to import job posting',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// =========================================================================
+// AI Tech Interview - Prompt Registry API Route
+// GET: List prompt versions with A/B weights and evaluation score stats
+// =========================================================================
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { listPromptVariants } from '@/lib/prompt-registry';
+import type { ApiResponse, ListPromptVariantsResponse } from '@/types/api';
+
+/**
+ * GET /api/prompts
+ * Evaluation prompt versions include the overall score distribution of the
+ * current evaluations they produced, to compare variants of an A/B split
+ */
+export async function GET(): Promise<NextResponse<ApiResponse<ListPromptVariantsResponse>>> {
+  try {
+    const [variants, stats] = await Promise.all([
+      listPromptVariants(),
+      prisma.responseEvaluation.groupBy({
+        by: ['promptVersion'],
+        where: { isCurrent: true, promptVersion: { not: null } },
+        _count: { _all: true },
+        _avg: { overallScore: true },
+        _min: { overallScore: true },
+        _max: { overallScore: true },
+      }),
+    ]);
+
+    const statsByRef = new Map(stats.map((s) => [s.promptVersion, s]));
+
+    const prompts = variants.map((variant) => {
+      if (variant.promptId !== 'evaluation') {
+        return variant;
+      }
+      const s = statsByRef.get(variant.ref);
+      return {
+        ...variant,
+        evaluationCount: s?._count._all ?? 0,
+        averageOverallScore: s?._avg.overallScore != null ? Math.round(s._avg.overallScore) : undefined,
+        minOverallScore: s?._min.overallScore ?? undefined,
+        maxOverallScore: s?._max.overallScore ?? undefined,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { prompts },
+    });
+  } catch (error) {
+    console.error('Error listing prompt versions:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list prompt versions',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
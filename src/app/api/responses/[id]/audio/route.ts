@@ -0,0 +1,84 @@
+// =========================================================================
+// AI Tech Interview - Response Audio API Route
+// GET: Stream the recording of an answer, with HTTP range support so
+// browsers can seek
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getStorage, parseByteRange } from '@/lib/storage';
+import { toAudioContentType } from '@/lib/response-audio';
+
+/**
+ * GET /api/responses/[id]/audio
+ * Responds 206 with the requested bytes for a `Range` header, 200 with the
+ * whole file otherwise, and 416 for ranges outside the file
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const { id } = await params;
+
+    const response = await prisma.questionResponse.findUnique({
+      where: { id },
+      select: { audioStorageKey: true },
+    });
+
+    const storage = getStorage();
+    const info = response?.audioStorageKey ? await storage.stat(response.audioStorageKey) : null;
+
+    if (!response?.audioStorageKey || !info) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'AUDIO_NOT_FOUND',
+            message: 'No recording stored for this response',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // Never serve a stored type that is not audio, and stop browsers from
+    // sniffing one
+    const headers = new Headers({
+      'Accept-Ranges': 'bytes',
+      'Content-Type': toAudioContentType(info.contentType) ?? 'application/octet-stream',
+      'Content-Disposition': 'inline',
+      'X-Content-Type-Options': 'nosniff',
+      'Cache-Control': 'private, no-cache',
+    });
+
+    const range = parseByteRange(request.headers.get('range'), info.size);
+
+    if (range === 'unsatisfiable') {
+      headers.set('Content-Range', `bytes */${info.size}`);
+      return new NextResponse(null, { status: 416, headers });
+    }
+
+    if (range) {
+      headers.set('Content-Range', `bytes ${range.start}-${range.end}/${info.size}`);
+      headers.set('Content-Length', String(range.end - range.start + 1));
+      return new NextResponse(await storage.read(response.audioStorageKey, range), { status: 206, headers });
+    }
+
+    headers.set('Content-Length', String(info.size));
+    return new NextResponse(await storage.read(response.audioStorageKey), { status: 200, headers });
+  } catch (error) {
+    console.error('Error streaming response audio:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to stream audio',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+// =========================================================================
+// AI Tech Interview - Evaluation Version API Route
+// PATCH: Make an earlier evaluation version the current one
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { setCurrentEvaluation, toResponseEvaluation } from '@/lib/evaluations';
+import type { ApiResponse, EvaluationVersionResponse } from '@/types/api';
+
+/**
+ * PATCH /api/responses/[id]/evaluations/[evaluationId]
+ * Body: { "isCurrent": true }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; evaluationId: string }> }
+): Promise<NextResponse<ApiResponse<EvaluationVersionResponse>>> {
+  try {
+    const { id: responseId, evaluationId } = await params;
+    const body = await request.json();
+
+    if (body?.isCurrent !== true) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Only { "isCurrent": true } is supported',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const target = await prisma.responseEvaluation.findFirst({
+      where: { id: evaluationId, responseId },
+      select: { id: true },
+    });
+
+    if (!target) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'EVALUATION_NOT_FOUND',
+            message: 'Evaluation version not found for this response',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const evaluation = await setCurrentEvaluation(responseId, evaluationId);
+
+    console.log(`Evaluation v${evaluation.version} is now current for response ${responseId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { evaluation: toResponseEvaluation(evaluation) },
+    });
+  } catch (error) {
+    console.error('Error updating current evaluation:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update current evaluation',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+// =========================================================================
+// AI Tech Interview - Evaluation Versions API Route
+// GET: List every evaluation version of a response
+// POST: Re-evaluate a response as a new version and make it current
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { CURRENT_EVALUATION, evaluateAndSaveResponse, toResponseEvaluation } from '@/lib/evaluations';
+import type { ApiResponse, EvaluationVersionResponse, ListEvaluationVersionsResponse } from '@/types/api';
+
+/**
+ * GET /api/responses/[id]/evaluations
+ * List evaluation versions, newest first
+ */
+export async function GET(
+  _: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<ListEvaluationVersionsResponse>>> {
+  try {
+    const { id } = await params;
+
+    const evaluations = await prisma.responseEvaluation.findMany({
+      where: { responseId: id },
+      orderBy: { version: 'desc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { evaluations: evaluations.map(toResponseEvaluation) },
+    });
+  } catch (error) {
+    console.error('Error listing evaluation versions:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list evaluation versions',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/responses/[id]/evaluations
+ * Re-score a response with the current prompt and model. Earlier versions
+ * are kept; the new one becomes current.
+ */
+export async function POST(
+  _: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<EvaluationVersionResponse>>> {
+  try {
+    const { id } = await params;
+
+    const response = await prisma.questionResponse.findUnique({
+      where: { id },
+      include: { question: true, session: true, evaluations: CURRENT_EVALUATION },
+    });
+
+    if (!response) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'RESPONSE_NOT_FOUND',
+            message: 'Response not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!response.transcription?.trim()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'NO_TRANSCRIPTION',
+            message: 'Response has no transcription to evaluate',
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const evaluation = await evaluateAndSaveResponse(response.session, response.question, response, {
+      force: true,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { evaluation: toResponseEvaluation(evaluation) },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error re-evaluating response:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'EVALUATION_FAILED',
+          message: error instanceof Error ? error.message : 'Failed to re-evaluate response',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { CURRENT_EVALUATION, getCurrentEvaluation } from '@/lib/evaluations';
+import { computeSpeechMetrics } from '@/lib/speech-metrics';
+import { toInterviewLanguage } from '@/lib/languages';
 import type { ApiResponse } from '@/types/api';
 
 export interface SaveResponseRequest {
@@ -114,6 +117,12 @@ export async function POST(
       },
     });
 
+    const speechMetrics = computeSpeechMetrics({ ...response, language: toInterviewLanguage(session.language) });
+    await prisma.questionResponse.update({
+      where: { id: response.id },
+      data: { speechMetrics },
+    });
+
     console.log(`Saved response ${response.id} for question ${questionId}`);
 
     // Check if all questions are answered and update session status to completed
@@ -184,7 +193,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         where: { id: responseId },
         include: {
           question: true,
-          evaluation: true,
+          evaluations: CURRENT_EVALUATION,
         },
       });
 
@@ -215,7 +224,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
             status: response.status,
             startedAt: response.startedAt?.toISOString(),
             completedAt: response.completedAt?.toISOString(),
-            evaluation: response.evaluation,
+            evaluation: getCurrentEvaluation(response) ?? null,
           },
         },
       });
@@ -247,7 +256,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
             difficulty: true,
           },
         },
-        evaluation: {
+        evaluations: {
+          ...CURRENT_EVALUATION,
           select: {
             overallScore: true,
           },
@@ -277,7 +287,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
           status: r.status,
           startedAt: r.startedAt?.toISOString(),
           completedAt: r.completedAt?.toISOString(),
-          overallScore: r.evaluation?.overallScore,
+          overallScore: getCurrentEvaluation(r)?.overallScore,
         })),
         count: responses.length,
       },
@@ -1,12 +1,26 @@
 // =========================================================================
 // AI Tech Interview - Response Sync API Route
-// POST: Sync an offline-recorded response to the server (persisted to PostgreSQL)
+// POST: Sync a recorded response to the server (persisted to PostgreSQL,
+// audio to the configured blob storage)
 // GET: Get all responses for a session
 // =========================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { CURRENT_EVALUATION } from '@/lib/evaluations';
+import {
+  AUDIO_CONTENT_TYPES,
+  getResponseAudioUrl,
+  MAX_AUDIO_BYTES,
+  parseWordTimings,
+  saveResponseAudio,
+  toAudioContentType,
+} from '@/lib/response-audio';
+import { computeSpeechMetrics } from '@/lib/speech-metrics';
+import { toInterviewLanguage } from '@/lib/languages';
+import { Prisma } from '@/generated/prisma/client';
 import type { ApiResponse } from '@/types/api';
+import type { SpeechMetrics, WordTiming } from '@/types/interview';
 
 export interface SyncResponseRequest {
   questionId: string;
@@ -35,6 +49,7 @@ export async function POST(
     const durationSeconds = parseInt(formData.get('durationSeconds') as string, 10);
     const transcription = formData.get('transcription') as string | null;
     const audioFile = formData.get('audio') as File | null;
+    const rawWordTimings = formData.get('wordTimings') as string | null;
 
     // Validate required fields
     if (!questionId || !sessionId) {
@@ -50,6 +65,22 @@ export async function POST(
       );
     }
 
+    const wordTimings = rawWordTimings ? parseWordTimings(rawWordTimings) : undefined;
+
+    if (wordTimings && !wordTimings.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Word timings are invalid',
+            details: { errors: wordTimings.errors },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     // Verify the session exists
     const session = await prisma.interviewSession.findUnique({
       where: { id: sessionId },
@@ -89,14 +120,45 @@ export async function POST(
       );
     }
 
-    // Handle audio file - for now just log, in production upload to Azure Blob Storage
-    let audioUrl: string | undefined;
-    if (audioFile) {
-      console.log(`Received audio file: ${audioFile.name}, size: ${audioFile.size} bytes`);
-      // TODO: Upload to Azure Blob Storage
-      // audioUrl = await uploadToStorage(audioFile);
+    if (audioFile && audioFile.size > MAX_AUDIO_BYTES) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'AUDIO_TOO_LARGE',
+            message: `Recordings must be under ${MAX_AUDIO_BYTES / (1024 * 1024)} MB`,
+          },
+        },
+        { status: 413 }
+      );
     }
 
+    if (audioFile && audioFile.size > 0 && !toAudioContentType(audioFile.type)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'UNSUPPORTED_AUDIO_TYPE',
+            message: `Recordings must be one of: ${AUDIO_CONTENT_TYPES.join(', ')}`,
+          },
+        },
+        { status: 415 }
+      );
+    }
+
+    // Store the recording under its session and question
+    let audioStorageKey: string | undefined;
+    if (audioFile && audioFile.size > 0) {
+      const existing = await prisma.questionResponse.findUnique({
+        where: { questionId_sessionId: { questionId, sessionId } },
+        select: { audioStorageKey: true },
+      });
+      audioStorageKey = await saveResponseAudio(sessionId, questionId, audioFile, existing?.audioStorageKey);
+      console.log(`Stored audio for question ${questionId}: ${audioStorageKey} (${audioFile.size} bytes)`);
+    }
+
+    const wordTimingsJson = wordTimings?.data as Prisma.InputJsonArray | undefined;
+
     // Create or update the response in the database
     const response = await prisma.questionResponse.upsert({
       where: {
@@ -108,7 +170,9 @@ export async function POST(
       update: {
         transcription: transcription || undefined,
         durationSeconds: isNaN(durationSeconds) ? null : durationSeconds,
-        audioUrl,
+        audioStorageKey,
+        // Timings belong to the recording, so a new recording replaces them
+        ...(audioStorageKey && { wordTimings: wordTimingsJson ?? Prisma.DbNull }),
         status: 'completed',
         completedAt: new Date(),
       },
@@ -117,13 +181,25 @@ export async function POST(
         sessionId,
         transcription: transcription || undefined,
         durationSeconds: isNaN(durationSeconds) ? null : durationSeconds,
-        audioUrl,
+        audioStorageKey,
+        wordTimings: wordTimingsJson,
         status: 'completed',
         startedAt: new Date(),
         completedAt: new Date(),
       },
     });
 
+    // The playback URL needs the response id, and the metrics the saved
+    // transcript and timings, so both are set once the row exists
+    const speechMetrics = computeSpeechMetrics({ ...response, language: toInterviewLanguage(session.language) });
+    await prisma.questionResponse.update({
+      where: { id: response.id },
+      data: {
+        ...(audioStorageKey && { audioUrl: getResponseAudioUrl(response.id) }),
+        speechMetrics,
+      },
+    });
+
     console.log(`Synced response ${response.id} for question ${questionId}`);
 
     return NextResponse.json(
@@ -184,7 +260,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
             category: true,
           },
         },
-        evaluation: true,
+        evaluations: CURRENT_EVALUATION,
       },
       orderBy: {
         question: {
@@ -206,10 +282,12 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
           transcription: r.transcription,
           durationSeconds: r.durationSeconds,
           audioUrl: r.audioUrl,
+          wordTimings: (r.wordTimings as WordTiming[] | null) ?? undefined,
+          speechMetrics: (r.speechMetrics as SpeechMetrics | null) ?? undefined,
           status: r.status,
           startedAt: r.startedAt?.toISOString(),
           completedAt: r.completedAt?.toISOString(),
-          hasEvaluation: r.evaluation !== null,
+          hasEvaluation: r.evaluations.length > 0,
         })),
         count: responses.length,
       },
@@ -0,0 +1,56 @@
+// =========================================================================
+// AI Tech Interview - Resume Import API Route
+// POST: Extract the text of an uploaded resume (PDF, DOCX, HTML, Markdown)
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { extractUploadedDocument } from '@/lib/document-text';
+import { extractResume } from '@/lib/resume';
+import type { ApiResponse, ExtractResumeResponse } from '@/types/api';
+
+/**
+ * POST /api/resumes
+ * Accepts multipart/form-data with a `file` field. Nothing is stored: the
+ * extracted text is returned for the user to review and edit, then sent
+ * to POST /api/sessions as `resumeText`.
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ExtractResumeResponse>>> {
+  try {
+    const upload = await extractUploadedDocument(
+      request,
+      { label: 'resume', fallback: 'the resume text' },
+      extractResume
+    );
+
+    if (!upload.success) {
+      return NextResponse.json({ success: false, error: upload.error }, { status: upload.status });
+    }
+
+    const { fileName, format, extracted: resume } = upload;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        fileName,
+        format,
+        resumeText: resume.text,
+        truncated: resume.truncated,
+      },
+    });
+  } catch (error) {
+    console.error('Error importing resume:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to import resume',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+// =========================================================================
+// AI Tech Interview - Seniority Inference API Route
+// POST: Preview the seniority level inferred for a role before creating a session
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { inferSeniority } from '@/lib/seniority';
+import type { ApiResponse, InferSeniorityRequest, InferSeniorityResponse } from '@/types/api';
+
+/**
+ * POST /api/seniority
+ * Returns the inferred level with a confidence and rationale so the user
+ * can confirm or change it (sent back as `seniorityOverride`)
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<InferSeniorityResponse>>> {
+  try {
+    const body = (await request.json()) as InferSeniorityRequest;
+    const roleTitle = body.roleTitle?.trim() ?? '';
+
+    if (roleTitle.length < 3) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_ROLE_TITLE',
+            message: 'Role title must be at least 3 characters',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const inference = await inferSeniority(roleTitle, body.jobDescription?.trim() ?? '');
+
+    return NextResponse.json({
+      success: true,
+      data: { inference },
+    });
+  } catch (error) {
+    console.error('Error inferring seniority:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to infer seniority',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
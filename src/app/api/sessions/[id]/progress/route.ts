@@ -0,0 +1,94 @@
+// =========================================================================
+// AI Tech Interview - Session Progress API Route
+// GET: Poll the background question generation job for a session
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isGenerationStale } from '@/lib/session-generation';
+import type { ApiResponse, SessionProgressResponse } from '@/types/api';
+import type { GenerationStage, SessionStatus } from '@/types/interview';
+
+const STALLED_ERROR = 'Question generation did not finish; please create the session again';
+
+/**
+ * GET /api/sessions/[id]/progress
+ * Get the current generation stage and counts for a session
+ */
+export async function GET(
+  _: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<SessionProgressResponse>>> {
+  try {
+    const { id: sessionId } = await params;
+
+    const session = await prisma.interviewSession.findUnique({
+      where: { id: sessionId },
+      select: {
+        id: true,
+        status: true,
+        generationStage: true,
+        generationError: true,
+        updatedAt: true,
+        _count: {
+          select: { topics: true, questions: true },
+        },
+      },
+    });
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: 'Session not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // A job lost mid-run would otherwise leave the client polling forever.
+    // Only a session still in the stage that was read is failed.
+    const stalled =
+      isGenerationStale(session) &&
+      (
+        await prisma.interviewSession.updateMany({
+          where: { id: session.id, generationStage: session.generationStage, updatedAt: session.updatedAt },
+          data: { status: 'cancelled', generationStage: 'failed', generationError: STALLED_ERROR },
+        })
+      ).count > 0;
+    if (stalled) {
+      console.log(`Session ${session.id}: generation stalled at ${session.generationStage}, marked failed`);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          sessionId: session.id,
+          status: (stalled ? 'cancelled' : session.status) as SessionStatus,
+          stage: (stalled ? 'failed' : session.generationStage) as GenerationStage,
+          error: stalled ? STALLED_ERROR : (session.generationError ?? undefined),
+          topicCount: session._count.topics,
+          questionCount: session._count.questions,
+        },
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error getting session progress:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to get session progress',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+// =========================================================================
+// AI Tech Interview - Follow-Up Question API Route
+// POST: Ask the model whether an answer warrants a probing follow-up and,
+// if so, insert it as a child question right after its parent
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isUniqueConstraintError, prisma } from '@/lib/prisma';
+import { generateFollowUpQuestion } from '@/lib/azure-openai';
+import { toInterviewQuestion } from '@/lib/questions';
+import { toInterviewLanguage } from '@/lib/languages';
+import type { ApiResponse, CreateFollowUpResponse } from '@/types/api';
+import type { QuestionCategory, QuestionDifficulty, SeniorityLevel } from '@/types/interview';
+
+function findQuestion(sessionId: string, questionId: string) {
+  return prisma.interviewQuestion.findFirst({
+    where: { id: questionId, sessionId },
+    include: {
+      topic: true,
+      session: true,
+      responses: true,
+      followUp: { include: { topic: true } },
+    },
+  });
+}
+
+/**
+ * POST /api/sessions/[id]/questions/[questionId]/follow-up
+ * Generate a follow-up for the saved answer to a question.
+ * Follow-ups are one level deep: a follow-up never gets its own follow-up.
+ */
+export async function POST(
+  _: NextRequest,
+  { params }: { params: Promise<{ id: string; questionId: string }> }
+): Promise<NextResponse<ApiResponse<CreateFollowUpResponse>>> {
+  try {
+    const { id: sessionId, questionId } = await params;
+
+    const parent = await findQuestion(sessionId, questionId);
+
+    if (!parent) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'QUESTION_NOT_FOUND',
+            message: 'Question not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (parent.parentQuestionId) {
+      return NextResponse.json({
+        success: true,
+        data: { followUp: null, reason: 'Follow-up questions do not get follow-ups of their own' },
+      });
+    }
+
+    // Idempotent: return the follow-up that was already generated
+    if (parent.followUp) {
+      return NextResponse.json({
+        success: true,
+        data: { followUp: toInterviewQuestion(parent.followUp), reason: 'Follow-up already generated' },
+      });
+    }
+
+    const transcription = parent.responses[0]?.transcription?.trim();
+
+    if (!transcription) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'RESPONSE_NOT_FOUND',
+            message: 'No saved answer for this question',
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const decision = await generateFollowUpQuestion(
+      {
+        question: parent.question,
+        category: parent.category as QuestionCategory,
+        difficulty: parent.difficulty as QuestionDifficulty,
+        expectedTopics: parent.expectedTopics,
+      },
+      transcription,
+      parent.session.roleTitle,
+      parent.session.seniorityLevel as SeniorityLevel,
+      toInterviewLanguage(parent.session.language)
+    );
+
+    if (!decision.shouldFollowUp || !decision.followUp) {
+      console.log(`No follow-up for question ${questionId}: ${decision.reason}`);
+      return NextResponse.json({
+        success: true,
+        data: { followUp: null, reason: decision.reason },
+      });
+    }
+
+    const { followUp } = decision;
+
+    // Shift later questions down and insert the follow-up right after its parent.
+    // A concurrent request for the same parent fails the unique constraint on
+    // parentQuestionId, which rolls back its shift; it returns the winner's follow-up.
+    const created = await prisma.$transaction(async (tx) => {
+      await tx.interviewQuestion.updateMany({
+        where: { sessionId, questionNumber: { gt: parent.questionNumber } },
+        data: { questionNumber: { increment: 1 } },
+      });
+
+      return tx.interviewQuestion.create({
+        data: {
+          sessionId,
+          topicId: parent.topicId,
+          parentQuestionId: parent.id,
+          questionNumber: parent.questionNumber + 1,
+          question: followUp.question,
+          category: parent.category,
+          difficulty: parent.difficulty,
+          expectedTopics: followUp.expectedTopics,
+          timeLimitSeconds: followUp.timeLimitSeconds,
+        },
+        include: { topic: true },
+      });
+    }).catch((error) => {
+      if (!isUniqueConstraintError(error)) throw error;
+      return null;
+    });
+
+    if (!created) {
+      const existing = await prisma.interviewQuestion.findUniqueOrThrow({
+        where: { parentQuestionId: parent.id },
+        include: { topic: true },
+      });
+      return NextResponse.json({
+        success: true,
+        data: { followUp: toInterviewQuestion(existing), reason: 'Follow-up already generated' },
+      });
+    }
+
+    console.log(`Created follow-up ${created.id} for question ${questionId}: ${decision.reason}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { followUp: toInterviewQuestion(created), reason: decision.reason },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error generating follow-up question:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'FOLLOW_UP_FAILED',
+          message: error instanceof Error ? error.message : 'Failed to generate follow-up question',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
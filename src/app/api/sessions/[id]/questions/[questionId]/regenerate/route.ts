@@ -0,0 +1,113 @@
+// =========================================================================
+// AI Tech Interview - Question Regeneration API Route
+// POST: Replace a question with an AI-generated alternative for the same
+// topic and category while reviewing a session
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { regenerateInterviewQuestion } from '@/lib/azure-openai';
+import { getQuestionReviewBlock, toInterviewQuestion } from '@/lib/questions';
+import { toInterviewLanguage } from '@/lib/languages';
+import type { ApiResponse, UpdateQuestionResponse } from '@/types/api';
+import type { QuestionCategory, QuestionDifficulty, QuestionSource, SeniorityLevel } from '@/types/interview';
+
+/**
+ * POST /api/sessions/[id]/questions/[questionId]/regenerate
+ * Generate a replacement and update the question in place, so it keeps its
+ * id and position. The replacement is AI-authored even if the original
+ * came from a template or the user.
+ */
+export async function POST(
+  _: NextRequest,
+  { params }: { params: Promise<{ id: string; questionId: string }> }
+): Promise<NextResponse<ApiResponse<UpdateQuestionResponse>>> {
+  try {
+    const { id: sessionId, questionId } = await params;
+
+    const block = await getQuestionReviewBlock(sessionId);
+    if (block) {
+      return NextResponse.json(
+        { success: false, error: { code: block.code, message: block.message } },
+        { status: block.status }
+      );
+    }
+
+    const original = await prisma.interviewQuestion.findFirst({
+      where: { id: questionId, sessionId },
+      include: { topic: true, session: true },
+    });
+
+    if (!original) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'QUESTION_NOT_FOUND',
+            message: 'Question not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const others = await prisma.interviewQuestion.findMany({
+      where: { sessionId, id: { not: questionId } },
+      orderBy: { questionNumber: 'asc' },
+      select: { question: true },
+    });
+
+    const replacement = await regenerateInterviewQuestion(
+      original.session.roleTitle,
+      original.session.jobDescription,
+      original.session.seniorityLevel as SeniorityLevel,
+      {
+        question: original.question,
+        category: original.category as QuestionCategory,
+        difficulty: original.difficulty as QuestionDifficulty,
+        expectedTopics: original.expectedTopics,
+        topicName: original.topic?.name,
+        topicDescription: original.topic?.description ?? undefined,
+        source: (original.source as QuestionSource | null) ?? 'jd',
+      },
+      others.map((q) => q.question),
+      toInterviewLanguage(original.session.language)
+    );
+
+    const question = await prisma.interviewQuestion.update({
+      where: { id: questionId },
+      data: {
+        question: replacement.question,
+        expectedTopics: replacement.expectedTopics,
+        timeLimitSeconds: replacement.timeLimitSeconds,
+        authorType: 'ai',
+        source: replacement.source,
+        repeatedFromId: null,
+        referenceAnswer: replacement.referenceAnswer ?? null,
+        rubricMustMention: replacement.rubric?.mustMention ?? [],
+        rubricRedFlags: replacement.rubric?.redFlags ?? [],
+      },
+      include: { topic: true },
+    });
+
+    console.log(`Regenerated question ${questionId} in session ${sessionId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { question: toInterviewQuestion(question) },
+    });
+  } catch (error) {
+    console.error('Error regenerating question:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'REGENERATION_FAILED',
+          message: error instanceof Error ? error.message : 'Failed to regenerate question',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
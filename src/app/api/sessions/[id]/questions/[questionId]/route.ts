@@ -0,0 +1,194 @@
+// =========================================================================
+// AI Tech Interview - Question API Route
+// PATCH: Edit a question, its reference answer and grading rubric
+// DELETE: Remove a question while reviewing a session
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  getQuestionReviewBlock,
+  isContentUpdate,
+  listSessionQuestions,
+  toInterviewQuestion,
+  validateUpdateQuestion,
+} from '@/lib/questions';
+import type { ApiResponse, ListQuestionsResponse, UpdateQuestionResponse } from '@/types/api';
+
+/**
+ * PATCH /api/sessions/[id]/questions/[questionId]
+ * Update a question. Omitted fields are left as-is; `null` clears the
+ * reference answer or rubric. The question text, category, difficulty,
+ * expected topics and time limit can only change before the interview
+ * starts. Existing evaluations are not re-scored.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; questionId: string }> }
+): Promise<NextResponse<ApiResponse<UpdateQuestionResponse>>> {
+  try {
+    const { id: sessionId, questionId } = await params;
+    const result = validateUpdateQuestion(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Question update is invalid',
+            details: { errors: result.errors },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (isContentUpdate(result.data)) {
+      const block = await getQuestionReviewBlock(sessionId);
+      if (block) {
+        return NextResponse.json(
+          { success: false, error: { code: block.code, message: block.message } },
+          { status: block.status }
+        );
+      }
+    }
+
+    const existing = await prisma.interviewQuestion.findFirst({
+      where: { id: questionId, sessionId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'QUESTION_NOT_FOUND',
+            message: 'Question not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const { referenceAnswer, rubric, ...content } = result.data;
+
+    const question = await prisma.interviewQuestion.update({
+      where: { id: questionId },
+      data: {
+        ...content, // Prisma leaves undefined fields unchanged
+        ...(referenceAnswer !== undefined && { referenceAnswer }),
+        ...(rubric !== undefined && {
+          rubricMustMention: rubric?.mustMention ?? [],
+          rubricRedFlags: rubric?.redFlags ?? [],
+        }),
+      },
+      include: { topic: true },
+    });
+
+    console.log(`Updated question ${questionId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { question: toInterviewQuestion(question) },
+    });
+  } catch (error) {
+    console.error('Error updating question:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update question',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/sessions/[id]/questions/[questionId]
+ * Remove a question before the interview starts and renumber the rest.
+ * A session keeps at least one question.
+ */
+export async function DELETE(
+  _: NextRequest,
+  { params }: { params: Promise<{ id: string; questionId: string }> }
+): Promise<NextResponse<ApiResponse<ListQuestionsResponse>>> {
+  try {
+    const { id: sessionId, questionId } = await params;
+
+    const block = await getQuestionReviewBlock(sessionId);
+    if (block) {
+      return NextResponse.json(
+        { success: false, error: { code: block.code, message: block.message } },
+        { status: block.status }
+      );
+    }
+
+    const existing = await prisma.interviewQuestion.findFirst({
+      where: { id: questionId, sessionId },
+      select: { questionNumber: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'QUESTION_NOT_FOUND',
+            message: 'Question not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const questionCount = await prisma.interviewQuestion.count({ where: { sessionId } });
+
+    if (questionCount <= 1) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'LAST_QUESTION',
+            message: 'A session needs at least one question',
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    // Remove the question and close the gap it leaves
+    await prisma.$transaction([
+      prisma.interviewQuestion.delete({ where: { id: questionId } }),
+      prisma.interviewQuestion.updateMany({
+        where: { sessionId, questionNumber: { gt: existing.questionNumber } },
+        data: { questionNumber: { decrement: 1 } },
+      }),
+    ]);
+
+    console.log(`Deleted question ${questionId} from session ${sessionId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { questions: await listSessionQuestions(sessionId) },
+    });
+  } catch (error) {
+    console.error('Error deleting question:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to delete question',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
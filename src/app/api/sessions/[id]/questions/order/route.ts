@@ -0,0 +1,96 @@
+// =========================================================================
+// AI Tech Interview - Question Order API Route
+// PUT: Reorder a session's questions while reviewing it
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getQuestionReviewBlock, listSessionQuestions, validateReorderQuestions } from '@/lib/questions';
+import type { ApiResponse, ListQuestionsResponse } from '@/types/api';
+
+/**
+ * PUT /api/sessions/[id]/questions/order
+ * Renumber the questions in the given order. The list must contain every
+ * question of the session exactly once.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<ListQuestionsResponse>>> {
+  try {
+    const { id: sessionId } = await params;
+    const result = validateReorderQuestions(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Question order is invalid',
+            details: { errors: result.errors },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const block = await getQuestionReviewBlock(sessionId);
+    if (block) {
+      return NextResponse.json(
+        { success: false, error: { code: block.code, message: block.message } },
+        { status: block.status }
+      );
+    }
+
+    const { questionIds } = result.data;
+    const existing = await prisma.interviewQuestion.findMany({ where: { sessionId }, select: { id: true } });
+    const existingIds = new Set(existing.map((q) => q.id));
+
+    if (
+      questionIds.length !== existingIds.size ||
+      new Set(questionIds).size !== questionIds.length ||
+      questionIds.some((id) => !existingIds.has(id))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'questionIds must list every question in the session exactly once',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(
+      questionIds.map((id, index) =>
+        prisma.interviewQuestion.update({
+          where: { id },
+          data: { questionNumber: index + 1 },
+        })
+      )
+    );
+
+    console.log(`Reordered ${questionIds.length} questions in session ${sessionId}`);
+
+    return NextResponse.json({
+      success: true,
+      data: { questions: await listSessionQuestions(sessionId) },
+    });
+  } catch (error) {
+    console.error('Error reordering questions:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to reorder questions',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+// =========================================================================
+// AI Tech Interview - Session Questions API Route
+// POST: Add a user-written question while reviewing a session
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getQuestionReviewBlock, toInterviewQuestion, validateCreateQuestion } from '@/lib/questions';
+import { QUESTION_TIME_LIMITS } from '@/types/interview';
+import type { ApiResponse, UpdateQuestionResponse } from '@/types/api';
+
+/**
+ * POST /api/sessions/[id]/questions
+ * Append a human-authored question before the interview starts
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<UpdateQuestionResponse>>> {
+  try {
+    const { id: sessionId } = await params;
+    const result = validateCreateQuestion(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Question is invalid',
+            details: { errors: result.errors },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const block = await getQuestionReviewBlock(sessionId);
+    if (block) {
+      return NextResponse.json(
+        { success: false, error: { code: block.code, message: block.message } },
+        { status: block.status }
+      );
+    }
+
+    const { question, category, difficulty, expectedTopics, timeLimitSeconds, topicId } = result.data;
+
+    if (topicId) {
+      const topic = await prisma.interviewTopic.findFirst({ where: { id: topicId, sessionId }, select: { id: true } });
+      if (!topic) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'TOPIC_NOT_FOUND',
+              message: 'Topic not found in this session',
+            },
+          },
+          { status: 404 }
+        );
+      }
+    }
+
+    const session = await prisma.interviewSession.findUniqueOrThrow({
+      where: { id: sessionId },
+      select: { seniorityLevel: true, _count: { select: { questions: true } } },
+    });
+
+    const created = await prisma.interviewQuestion.create({
+      data: {
+        sessionId,
+        topicId,
+        questionNumber: session._count.questions + 1,
+        question,
+        category,
+        difficulty: difficulty ?? session.seniorityLevel,
+        expectedTopics: expectedTopics ?? [],
+        timeLimitSeconds: timeLimitSeconds ?? QUESTION_TIME_LIMITS[category].default,
+        authorType: 'human',
+      },
+      include: { topic: true },
+    });
+
+    console.log(`Added question ${created.id} to session ${sessionId}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { question: toInterviewQuestion(created) },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error adding question:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to add question',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
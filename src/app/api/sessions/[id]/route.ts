@@ -5,6 +5,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { CURRENT_EVALUATION, getCurrentEvaluation, toRubricResult } from '@/lib/evaluations';
+import { toInterviewLanguage } from '@/lib/languages';
+import { toInterviewerPersona } from '@/lib/personas';
+import type { SessionGenerationOptions, SpeechMetrics, WordTiming } from '@/types/interview';
 
 /**
  * GET /api/sessions/[id]
@@ -30,7 +34,7 @@ export async function GET(
             topic: true,
             responses: {
               include: {
-                evaluation: true,
+                evaluations: CURRENT_EVALUATION,
               },
             },
           },
@@ -58,6 +62,7 @@ export async function GET(
       sessionId: q.sessionId,
       topicId: q.topicId,
       topicName: q.topic?.name,
+      parentQuestionId: q.parentQuestionId ?? undefined,
       questionNumber: q.questionNumber,
       question: q.question,
       category: q.category,
@@ -65,29 +70,49 @@ export async function GET(
       expectedTopics: q.expectedTopics,
       timeLimitSeconds: q.timeLimitSeconds,
       timeLimit: q.timeLimitSeconds, // Alias for UI
+      authorType: q.authorType,
+      source: q.source ?? undefined,
+      repeatedFromId: q.repeatedFromId ?? undefined,
+      referenceAnswer: q.referenceAnswer ?? undefined,
+      rubric: q.rubricMustMention.length > 0
+        ? { mustMention: q.rubricMustMention, redFlags: q.rubricRedFlags }
+        : undefined,
       createdAt: q.createdAt.toISOString(),
-      responses: q.responses.map((r) => ({
-        id: r.id,
-        transcription: r.transcription,
-        durationSeconds: r.durationSeconds,
-        status: r.status,
-        createdAt: r.createdAt.toISOString(),
-        evaluation: r.evaluation ? {
-          id: r.evaluation.id,
-          relevanceScore: r.evaluation.relevanceScore,
-          technicalAccuracyScore: r.evaluation.technicalAccuracyScore,
-          clarityScore: r.evaluation.clarityScore,
-          depthScore: r.evaluation.depthScore,
-          structureScore: r.evaluation.structureScore,
-          confidenceScore: r.evaluation.confidenceScore,
-          overallScore: r.evaluation.overallScore,
-          performanceBand: r.evaluation.performanceBand,
-          strengths: r.evaluation.strengths,
-          improvements: r.evaluation.improvements,
-          suggestion: r.evaluation.suggestion,
-          createdAt: r.evaluation.createdAt.toISOString(),
-        } : undefined,
-      })),
+      responses: q.responses.map((r) => {
+        const evaluation = getCurrentEvaluation(r);
+        return {
+          id: r.id,
+          transcription: r.transcription,
+          durationSeconds: r.durationSeconds,
+          audioUrl: r.audioUrl ?? undefined,
+          wordTimings: (r.wordTimings as WordTiming[] | null) ?? undefined,
+          speechMetrics: (r.speechMetrics as SpeechMetrics | null) ?? undefined,
+          status: r.status,
+          createdAt: r.createdAt.toISOString(),
+          evaluation: evaluation ? {
+            id: evaluation.id,
+            relevanceScore: evaluation.relevanceScore,
+            technicalAccuracyScore: evaluation.technicalAccuracyScore,
+            clarityScore: evaluation.clarityScore,
+            depthScore: evaluation.depthScore,
+            structureScore: evaluation.structureScore,
+            confidenceScore: evaluation.confidenceScore,
+            overallScore: evaluation.overallScore,
+            weightProfileVersion: evaluation.weightProfileVersion ?? undefined,
+            performanceBand: evaluation.performanceBand,
+            strengths: evaluation.strengths,
+            improvements: evaluation.improvements,
+            suggestion: evaluation.suggestion,
+            rubricResult: toRubricResult(evaluation),
+            sampleCount: evaluation.sampleCount,
+            scoreSpread: evaluation.scoreSpread ?? undefined,
+            version: evaluation.version,
+            promptVersion: evaluation.promptVersion ?? undefined,
+            model: evaluation.model ?? undefined,
+            createdAt: evaluation.createdAt.toISOString(),
+          } : undefined,
+        };
+      }),
     }));
 
     // Transform topics
@@ -95,6 +120,7 @@ export async function GET(
       name: t.name,
       description: t.description,
       priority: t.priority,
+      source: t.source,
       category: 'technical', // Default, can be enhanced later
     }));
 
@@ -107,7 +133,16 @@ export async function GET(
           companyName: session.companyName,
           jobDescription: session.jobDescription,
           seniorityLevel: session.seniorityLevel,
+          language: toInterviewLanguage(session.language),
+          persona: toInterviewerPersona(session.persona),
+          sourceMode: session.sourceMode,
+          templateId: session.templateId ?? undefined,
+          generationOptions: (session.generationOptions as SessionGenerationOptions | null) ?? undefined,
+          resumeText: session.resumeText ?? undefined,
+          promptVersions: (session.promptVersions as Record<string, string> | null) ?? undefined,
           status: session.status,
+          generationStage: session.generationStage,
+          generationError: session.generationError ?? undefined,
           createdAt: session.createdAt.toISOString(),
           updatedAt: session.updatedAt.toISOString(),
           completedAt: session.completedAt?.toISOString(),
@@ -1,27 +1,114 @@
 // =========================================================================
 // AI Tech Interview - Sessions API Route
 // POST: Create a new interview session (persisted to PostgreSQL)
-// GET: Get a session by ID (via query param)
+// GET: List sessions with pagination
 // =========================================================================
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { generateInterviewQuestions, extractSeniorityFromRole } from '@/lib/azure-openai';
-import type { CreateSessionInput } from '@/types/interview';
+import { markGenerationFailed, runSessionGeneration } from '@/lib/session-generation';
+import { getTemplate } from '@/lib/templates';
+import { assignPromptVersions } from '@/lib/prompt-registry';
+import { validateSessionOptions } from '@/lib/session-options';
+import { inferSeniorityFromRules } from '@/lib/seniority';
+import { MAX_RESUME_CHARS } from '@/lib/resume';
+import type { CreateSessionInput, InterviewTemplate, SessionSourceMode } from '@/types/interview';
 import type { ApiResponse, CreateSessionResponse } from '@/types/api';
 
+const SOURCE_MODES: SessionSourceMode[] = ['job-description', 'template', 'mixed'];
+
+/**
+ * Assign and store the prompt versions of a new session
+ */
+async function assignSessionPrompts(sessionId: string) {
+  const promptVersions = await assignPromptVersions(sessionId);
+  const session = await prisma.interviewSession.update({
+    where: { id: sessionId },
+    data: { promptVersions },
+  });
+  return { promptVersions, session };
+}
+
 /**
  * POST /api/sessions
- * Create a new interview session and generate questions
+ * Create a new interview session and queue question generation.
+ * Returns immediately (202); poll GET /api/sessions/[id]/progress for status.
  */
 export async function POST(
   request: NextRequest
 ): Promise<NextResponse<ApiResponse<CreateSessionResponse>>> {
   try {
     const body = (await request.json()) as CreateSessionInput;
+    const mode: SessionSourceMode = body.mode ?? 'job-description';
+
+    if (!SOURCE_MODES.includes(mode)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_MODE',
+            message: `Mode must be one of: ${SOURCE_MODES.join(', ')}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const options = validateSessionOptions(body);
+    if (!options.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_OPTIONS',
+            message: options.errors.join('; '),
+          },
+        },
+        { status: 400 }
+      );
+    }
+    const { generationOptions, seniorityOverride, language, persona } = options.data;
+
+    // Template-only sessions generate nothing, so there is nothing to steer
+    if (mode === 'template' && (generationOptions.includeTopics || generationOptions.categoryWeights)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_OPTIONS',
+            message: 'includeTopics and categoryWeights need AI questions; use mixed mode to add them to a template',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Template and mixed sessions copy questions from a template version
+    let template: InterviewTemplate | null = null;
+    if (mode !== 'job-description') {
+      template = body.templateId ? await getTemplate(body.templateId) : null;
+
+      if (!template) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: 'TEMPLATE_NOT_FOUND',
+              message: body.templateId ? 'Template not found' : `A template is required for ${mode} sessions`,
+            },
+          },
+          { status: body.templateId ? 404 : 400 }
+        );
+      }
+    }
+
+    // Template-only sessions fall back to the template's role and description
+    const defaults = mode === 'template' ? template : null;
+    const roleTitle = body.roleTitle?.trim() || defaults?.roleTitle || '';
+    const jobDescription = body.jobDescription?.trim() || defaults?.description || '';
 
     // Validate input
-    if (!body.roleTitle || body.roleTitle.trim().length < 10) {
+    if (roleTitle.length < 10) {
       return NextResponse.json(
         {
           success: false,
@@ -34,7 +121,7 @@ export async function POST(
       );
     }
 
-    if (!body.jobDescription || body.jobDescription.trim().length < 50) {
+    if (mode !== 'template' && jobDescription.length < 50) {
       return NextResponse.json(
         {
           success: false,
@@ -47,107 +134,88 @@ export async function POST(
       );
     }
 
-    // Extract seniority level from role title
-    const seniorityLevel = extractSeniorityFromRole(body.roleTitle);
+    // Template-only sessions generate nothing, so a resume would go unused
+    const resumeText = mode !== 'template' ? body.resumeText?.trim() || null : null;
+    if (resumeText && resumeText.length > MAX_RESUME_CHARS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_RESUME',
+            message: `Resume must be at most ${MAX_RESUME_CHARS} characters`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // An explicit (usually user-confirmed) level wins; template sessions use
+    // the template's level; otherwise the rules infer it from the title and
+    // description. An unsure rule result is refined by the AI during
+    // generation, so the response is not held up by a model call.
+    const senioritySource = seniorityOverride ? 'user' : defaults ? 'template' : 'rules';
+    const seniorityLevel =
+      seniorityOverride ?? defaults?.seniorityLevel ?? inferSeniorityFromRules(roleTitle, jobDescription).level;
 
-    // Create session in database first (before calling OpenAI)
-    const session = await prisma.interviewSession.create({
+    // Create session in database; topics and questions are generated in the background
+    const created = await prisma.interviewSession.create({
       data: {
-        roleTitle: body.roleTitle.trim(),
+        roleTitle,
         companyName: body.companyName?.trim() || null,
-        jobDescription: body.jobDescription.trim(),
+        jobDescription,
         seniorityLevel,
+        senioritySource,
+        language,
+        persona,
         status: 'created',
+        generationStage: 'pending',
+        sourceMode: mode,
+        templateId: template?.id ?? null,
+        generationOptions,
+        resumeText,
       },
     });
 
-    console.log(`Session ${session.id} created, generating questions...`);
-
-    try {
-      // Generate questions using Azure OpenAI (now with topic extraction)
-      const generatedQuestions = await generateInterviewQuestions(
-        session.roleTitle,
-        session.jobDescription,
-        seniorityLevel
-      );
-
-      // Store topics in database
-      const topicsData = generatedQuestions.topics || [];
-      const createdTopics = await Promise.all(
-        topicsData.map((topic) =>
-          prisma.interviewTopic.create({
-            data: {
-              sessionId: session.id,
-              name: topic.name,
-              description: topic.description,
-              priority: topic.priority,
-            },
-          })
-        )
-      );
+    // A/B assignment hashes the session id, so it happens once the id exists.
+    // If it fails the session is marked failed rather than left pending.
+    const { promptVersions, session } = await assignSessionPrompts(created.id).catch(async (error) => {
+      await markGenerationFailed(created.id, error);
+      throw error;
+    });
 
-      // Create a map of topic names to IDs
-      const topicNameToId = new Map<string, string>();
-      for (const t of createdTopics) {
-        topicNameToId.set(t.name, t.id);
-      }
+    console.log(
+      `Session ${session.id} created (prompts: ${Object.values(promptVersions).join(', ')}), queueing question generation...`
+    );
 
-      // Store questions in database
-      const questionsData = generatedQuestions.questions.map((q, index) => ({
-        sessionId: session.id,
-        topicId: q.topicName ? (topicNameToId.get(q.topicName) ?? null) : null,
-        questionNumber: index + 1,
-        question: q.question,
-        category: q.category,
-        difficulty: q.difficulty,
-        expectedTopics: q.expectedTopics,
-        timeLimitSeconds: q.timeLimitSeconds,
-      }));
-
-      await prisma.interviewQuestion.createMany({
-        data: questionsData,
-      });
-
-      // Update session status
-      const updatedSession = await prisma.interviewSession.update({
-        where: { id: session.id },
-        data: { status: 'in-progress' },
-      });
-
-      console.log(
-        `Session ${session.id}: Generated ${questionsData.length} questions from ${topicsData.length} topics`
-      );
+    // Run after the response is sent so the request is not held open
+    after(() => runSessionGeneration(session.id));
 
-      return NextResponse.json(
-        {
-          success: true,
-          data: {
-            session: {
-              id: updatedSession.id,
-              roleTitle: updatedSession.roleTitle,
-              companyName: updatedSession.companyName ?? undefined,
-              jobDescription: updatedSession.jobDescription,
-              seniorityLevel: seniorityLevel, // Use the typed variable
-              status: 'in-progress' as const, // Use the literal type
-              createdAt: updatedSession.createdAt.toISOString(),
-              updatedAt: updatedSession.updatedAt.toISOString(),
-            },
-            topics: topicsData,
-            questionCount: questionsData.length,
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          session: {
+            id: session.id,
+            roleTitle: session.roleTitle,
+            companyName: session.companyName ?? undefined,
+            jobDescription: session.jobDescription,
+            seniorityLevel,
+            language,
+            persona,
+            status: 'created' as const,
+            generationStage: 'pending' as const,
+            sourceMode: mode,
+            templateId: session.templateId ?? undefined,
+            generationOptions,
+            resumeText: resumeText ?? undefined,
+            promptVersions,
+            createdAt: session.createdAt.toISOString(),
+            updatedAt: session.updatedAt.toISOString(),
           },
         },
-        { status: 201 }
-      );
-    } catch (openAiError) {
-      // If OpenAI fails, mark session as failed but keep it in DB
-      await prisma.interviewSession.update({
-        where: { id: session.id },
-        data: { status: 'cancelled' },
-      });
-
-      console.error('OpenAI error:', openAiError);
-      throw openAiError;
-    }
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Error creating session:', error);
 
@@ -188,6 +256,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
           select: { id: true },
         },
         evaluations: {
+          where: { isCurrent: true },
           select: {
             overallScore: true,
           },
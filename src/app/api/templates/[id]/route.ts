@@ -0,0 +1,53 @@
+// =========================================================================
+// AI Tech Interview - Template Detail API Route
+// GET: Get a template version with its topics and questions
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTemplate } from '@/lib/templates';
+import type { ApiResponse, GetTemplateResponse } from '@/types/api';
+
+/**
+ * GET /api/templates/[id]
+ * Get a template version by ID
+ */
+export async function GET(
+  _: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<GetTemplateResponse>>> {
+  try {
+    const { id } = await params;
+    const template = await getTemplate(id);
+
+    if (!template) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'TEMPLATE_NOT_FOUND',
+            message: 'Template not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { template },
+    });
+  } catch (error) {
+    console.error('Error getting template:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to get template',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+// =========================================================================
+// AI Tech Interview - Templates API Route
+// GET: List interview templates (latest version of each by default)
+// POST: Publish a template, or a new version of an existing slug
+// =========================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listTemplates, publishTemplate, validateTemplateInput } from '@/lib/templates';
+import type { ApiResponse, GetTemplateResponse, ListTemplatesResponse } from '@/types/api';
+
+/**
+ * GET /api/templates?allVersions=true
+ * List templates; pass allVersions=true to include superseded versions
+ */
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ListTemplatesResponse>>> {
+  try {
+    const allVersions = request.nextUrl.searchParams.get('allVersions') === 'true';
+    const templates = await listTemplates(allVersions);
+
+    return NextResponse.json({
+      success: true,
+      data: { templates },
+    });
+  } catch (error) {
+    console.error('Error listing templates:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list templates',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/templates
+ * Publish a template with its topics and human-authored questions
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<GetTemplateResponse>>> {
+  try {
+    const body = await request.json().catch(() => undefined);
+
+    if (body === undefined) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_JSON',
+            message: 'Request body must be valid JSON',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = validateTemplateInput(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'INVALID_TEMPLATE',
+            message: 'Template is invalid',
+            details: { errors: result.errors },
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const template = await publishTemplate(result.data);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { template },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error publishing template:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to publish template',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
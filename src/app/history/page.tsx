@@ -9,7 +9,7 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { ArrowLeft, ChevronLeft, ChevronRight, Calendar, Building2, FileText, Loader2 } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { cn, getSeniorityBadgeColor } from '@/lib/utils';
 
 // =========================================================================
 // Types
@@ -115,10 +115,13 @@ export default function HistoryPage() {
 
   const handleRowClick = (sessionId: string, status: string) => {
     // Route based on session status
-    if (status === 'completed') {
+    if (status === 'completed' || status === 'partially-evaluated') {
       router.push(`/results/${sessionId}`);
-    } else if (status === 'in-progress' || status === 'created') {
+    } else if (status === 'in-progress') {
       router.push(`/interview/${sessionId}`);
+    } else if (status === 'created') {
+      // Not started yet: questions can still be reviewed
+      router.push(`/review/${sessionId}`);
     }
     // For 'cancelled' status, don't navigate
   };
@@ -236,7 +239,10 @@ export default function HistoryPage() {
                           </div>
                         </td>
                         <td className="px-6 py-4">
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-700 capitalize">
+                          <span className={cn(
+                            'inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize',
+                            getSeniorityBadgeColor(session.seniorityLevel)
+                          )}>
                             {session.seniorityLevel}
                           </span>
                         </td>
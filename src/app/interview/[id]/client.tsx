@@ -6,6 +6,7 @@
 'use client';
 
 import { InterviewRoom } from '@/components/InterviewRoom';
+import type { InterviewerPersona, InterviewLanguage } from '@/types/interview';
 
 // =========================================================================
 // Types
@@ -19,6 +20,7 @@ interface Question {
   difficulty: string;
   timeLimit: number;
   topicName?: string;
+  parentQuestionId?: string;
   responses: Array<{
     id: string;
     transcription?: string;
@@ -33,6 +35,8 @@ interface Session {
   id: string;
   roleTitle: string;
   seniorityLevel: string;
+  language: InterviewLanguage;
+  persona: InterviewerPersona;
 }
 
 interface InterviewRoomClientProps {
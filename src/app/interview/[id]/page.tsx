@@ -113,6 +113,8 @@ async function InterviewContent({ sessionId }: { sessionId: string }) {
               id: session.id,
               roleTitle: session.roleTitle,
               seniorityLevel: session.seniorityLevel,
+              language: session.language,
+              persona: session.persona,
             }}
             questions={questions.map((q: any) => ({
               id: q.id,
@@ -122,6 +124,7 @@ async function InterviewContent({ sessionId }: { sessionId: string }) {
               difficulty: q.difficulty,
               timeLimit: q.timeLimit || q.timeLimitSeconds,
               topicName: q.topicName,
+              parentQuestionId: q.parentQuestionId,
               responses: q.responses,
             }))}
           />
@@ -6,9 +6,15 @@
 'use client';
 
 import { useState } from 'react';
-import { ChevronDown, ChevronUp, CheckCircle, TrendingUp } from 'lucide-react';
+import { ChevronDown, ChevronUp, CheckCircle, TrendingUp, Loader2, AlertCircle, RotateCcw, ListChecks, Check, X, AlertTriangle } from 'lucide-react';
 import { ScoreCard, OverallScore, PerformanceBadge } from '@/components/ScoreCard';
-import { formatTime } from '@/lib/utils';
+import { EvaluationHistory } from '@/components/EvaluationHistory';
+import { AnswerPlayback } from '@/components/AnswerPlayback';
+import { DeliveryMetrics } from '@/components/DeliveryMetrics';
+import { useEvaluationStream } from '@/hooks/useEvaluationStream';
+import { formatTime, getSeniorityBadgeColor } from '@/lib/utils';
+import { getPerformanceBand } from '@/types/interview';
+import type { ResponseEvaluation, RubricResult, ScoreSpread, SpeechMetrics, WordTiming } from '@/types/interview';
 
 // =========================================================================
 // Types
@@ -31,6 +37,11 @@ interface Question {
   difficulty: string;
   timeLimitSeconds: number;
   topicName?: string;
+  parentQuestionId?: string;
+  authorType?: string;
+  source?: string;
+  repeatedFromId?: string;
+  referenceAnswer?: string;
   responses: Response[];
 }
 
@@ -38,6 +49,9 @@ interface Response {
   id: string;
   transcription: string;
   durationSeconds: number;
+  audioUrl?: string;
+  wordTimings?: WordTiming[];
+  speechMetrics?: SpeechMetrics;
   evaluation?: Evaluation;
 }
 
@@ -54,20 +68,37 @@ interface Evaluation {
   strengths: string[];
   improvements: string[];
   suggestion: string;
-}
-
-interface EvaluationSummary {
-  sessionId: string;
-  totalResponses: number;
-  evaluatedResponses: number;
-  averageScore: number;
-  performanceBand: string;
+  rubricResult?: RubricResult;
+  sampleCount?: number;
+  scoreSpread?: ScoreSpread;
 }
 
 interface ResultsClientProps {
   session: Session;
   questions: Question[];
-  evaluationSummary: EvaluationSummary;
+}
+
+/**
+ * Map a streamed evaluation to the shape returned by the session endpoint
+ */
+function toEvaluation(evaluation: ResponseEvaluation): Evaluation {
+  return {
+    id: evaluation.id,
+    relevanceScore: evaluation.scores.relevance,
+    technicalAccuracyScore: evaluation.scores.technicalAccuracy,
+    clarityScore: evaluation.scores.clarity,
+    depthScore: evaluation.scores.depth,
+    structureScore: evaluation.scores.structure,
+    confidenceScore: evaluation.scores.confidence,
+    overallScore: evaluation.overallScore,
+    performanceBand: evaluation.performanceBand,
+    strengths: evaluation.feedback.strengths,
+    improvements: evaluation.feedback.improvements,
+    suggestion: evaluation.feedback.suggestion,
+    rubricResult: evaluation.rubricResult,
+    sampleCount: evaluation.sampleCount,
+    scoreSpread: evaluation.scoreSpread,
+  };
 }
 
 // =========================================================================
@@ -155,10 +186,42 @@ function ScoringScale() {
 
 // =========================================================================
 
-function QuestionCard({ question, index }: { question: Question; index: number }) {
+interface QuestionCardProps {
+  question: Question;
+  index: number;
+  evaluation?: Evaluation;
+  failure?: string;
+  isEvaluating: boolean;
+  onEvaluationChange: (evaluation: ResponseEvaluation) => void;
+}
+
+function QuestionCard({ question, index, evaluation, failure, isEvaluating, onEvaluationChange }: QuestionCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const response = question.responses?.[0];
-  const evaluation = response?.evaluation;
+
+  if (response && !evaluation && (isEvaluating || failure)) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <span className="flex items-center justify-center w-10 h-10 rounded-full bg-gray-100 text-gray-600 font-bold">
+            {question.questionNumber}
+          </span>
+          {failure ? (
+            <span className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="h-4 w-4" />
+              Evaluation failed: {failure}
+            </span>
+          ) : (
+            <span className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Evaluating...
+            </span>
+          )}
+        </div>
+        <p className="text-gray-900 font-medium line-clamp-2">{question.question}</p>
+      </div>
+    );
+  }
 
   if (!response || !evaluation) {
     return (
@@ -170,7 +233,14 @@ function QuestionCard({ question, index }: { question: Question; index: number }
             </span>
             <div>
               <PerformanceBadge band="needs-work" size="sm" />
-              <p className="text-xs text-gray-500 mt-1">{question.topicName || question.category}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {question.topicName || question.category}
+                {question.parentQuestionId && ' · Follow-up'}
+                {question.authorType === 'human' && ' · Human-authored'}
+                {question.source === 'resume' && ' · From your resume'}
+                {question.source === 'gap' && ' · Skill gap'}
+                {question.repeatedFromId && ' · Asked before'}
+              </p>
             </div>
           </div>
         </div>
@@ -179,6 +249,8 @@ function QuestionCard({ question, index }: { question: Question; index: number }
     );
   }
 
+  const spread = evaluation.scoreSpread;
+
   return (
     <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
       {/* Header */}
@@ -193,13 +265,24 @@ function QuestionCard({ question, index }: { question: Question; index: number }
             </span>
             <div>
               <PerformanceBadge band={evaluation.performanceBand} size="sm" />
-              <p className="text-xs text-gray-500 mt-1">{question.topicName || question.category}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {question.topicName || question.category}
+                {question.parentQuestionId && ' · Follow-up'}
+                {question.authorType === 'human' && ' · Human-authored'}
+                {question.source === 'resume' && ' · From your resume'}
+                {question.source === 'gap' && ' · Skill gap'}
+                {question.repeatedFromId && ' · Asked before'}
+              </p>
             </div>
           </div>
           <div className="flex items-center gap-4">
             <div className="text-right">
               <div className="text-3xl font-bold text-gray-900">{evaluation.overallScore}</div>
-              <div className="text-xs text-gray-500">points</div>
+              <div className="text-xs text-gray-500">
+                {spread && spread.overall.max > spread.overall.min
+                  ? `${spread.overall.min}–${spread.overall.max}`
+                  : 'points'}
+              </div>
             </div>
             {isExpanded ? (
               <ChevronUp className="h-5 w-5 text-gray-400" />
@@ -221,26 +304,88 @@ function QuestionCard({ question, index }: { question: Question; index: number }
           <div>
             <h4 className="text-sm font-semibold text-gray-700 mb-3">Score Breakdown</h4>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-              <ScoreCard label="Relevance" score={evaluation.relevanceScore} />
-              <ScoreCard label="Technical Accuracy" score={evaluation.technicalAccuracyScore} />
-              <ScoreCard label="Clarity" score={evaluation.clarityScore} />
-              <ScoreCard label="Depth" score={evaluation.depthScore} />
-              <ScoreCard label="Structure" score={evaluation.structureScore} />
-              <ScoreCard label="Confidence" score={evaluation.confidenceScore} />
+              <ScoreCard label="Relevance" score={evaluation.relevanceScore} range={spread?.relevance} />
+              <ScoreCard label="Technical Accuracy" score={evaluation.technicalAccuracyScore} range={spread?.technicalAccuracy} />
+              <ScoreCard label="Clarity" score={evaluation.clarityScore} range={spread?.clarity} />
+              <ScoreCard label="Depth" score={evaluation.depthScore} range={spread?.depth} />
+              <ScoreCard label="Structure" score={evaluation.structureScore} range={spread?.structure} />
+              <ScoreCard label="Confidence" score={evaluation.confidenceScore} range={spread?.confidence} />
             </div>
+            {spread && (
+              <p className="text-xs text-gray-500 mt-2">
+                Median of {evaluation.sampleCount} evaluator runs. Ranges show how much the scores varied;
+                changes smaller than the range are likely evaluator noise.
+              </p>
+            )}
           </div>
 
           {/* Your Response */}
           <div>
             <h4 className="text-sm font-semibold text-gray-700 mb-2">Your Answer</h4>
             <div className="bg-white rounded-lg p-4 border border-gray-200">
-              <p className="text-sm text-gray-700 whitespace-pre-wrap">{response.transcription}</p>
+              {response.audioUrl ? (
+                <AnswerPlayback
+                  audioUrl={response.audioUrl}
+                  transcription={response.transcription}
+                  wordTimings={response.wordTimings}
+                />
+              ) : (
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{response.transcription}</p>
+              )}
               <p className="text-xs text-gray-500 mt-2">
                 Duration: {formatTime(response.durationSeconds)} / {formatTime(question.timeLimitSeconds)}
               </p>
             </div>
           </div>
 
+          {/* Delivery */}
+          {response.speechMetrics && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Delivery</h4>
+              <DeliveryMetrics metrics={response.speechMetrics} />
+            </div>
+          )}
+
+          {/* Rubric Checklist */}
+          {evaluation.rubricResult && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2 flex items-center gap-2">
+                <ListChecks className="h-4 w-4" />
+                Rubric Checklist
+                <span className="text-xs font-normal text-gray-500">
+                  ({evaluation.rubricResult.hits.length}/
+                  {evaluation.rubricResult.hits.length + evaluation.rubricResult.misses.length} covered)
+                </span>
+              </h4>
+              <ul className="space-y-2">
+                {evaluation.rubricResult.hits.map((point) => (
+                  <li key={`hit-${point}`} className="flex items-start gap-2 text-sm text-gray-700">
+                    <Check className="h-4 w-4 text-green-600 mt-0.5 shrink-0" />
+                    <span>{point}</span>
+                  </li>
+                ))}
+                {evaluation.rubricResult.misses.map((point) => (
+                  <li key={`miss-${point}`} className="flex items-start gap-2 text-sm text-gray-500">
+                    <X className="h-4 w-4 text-gray-400 mt-0.5 shrink-0" />
+                    <span>{point}</span>
+                  </li>
+                ))}
+                {evaluation.rubricResult.redFlags.map((flag) => (
+                  <li key={`flag-${flag}`} className="flex items-start gap-2 text-sm text-red-700">
+                    <AlertTriangle className="h-4 w-4 text-red-600 mt-0.5 shrink-0" />
+                    <span>Red flag: {flag}</span>
+                  </li>
+                ))}
+              </ul>
+              {question.referenceAnswer && (
+                <div className="mt-3 bg-white rounded-lg p-4 border border-gray-200">
+                  <p className="text-xs font-semibold text-gray-500 mb-1">Reference answer</p>
+                  <p className="text-sm text-gray-700">{question.referenceAnswer}</p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Strengths */}
           {evaluation.strengths.length > 0 && (
             <div>
@@ -286,6 +431,9 @@ function QuestionCard({ question, index }: { question: Question; index: number }
               </div>
             </div>
           )}
+
+          {/* Evaluation History */}
+          <EvaluationHistory responseId={response.id} onCurrentChange={onEvaluationChange} />
         </div>
       )}
     </div>
@@ -299,11 +447,37 @@ function QuestionCard({ question, index }: { question: Question; index: number }
 export function ResultsClient({ 
   session, 
   questions, 
-  evaluationSummary 
 }: ResultsClientProps) {
   const [showScalingModal, setShowScalingModal] = useState(false);
+  // Evaluations replaced by a re-evaluation or version switch, keyed by question ID
+  const [currentEvaluations, setCurrentEvaluations] = useState<Record<string, ResponseEvaluation>>({});
   const questionsWithResponses = questions.filter(q => q.responses && q.responses.length > 0);
 
+  // Only stream when some answered question has not been evaluated yet
+  const needsEvaluation = questionsWithResponses.some((q) => !q.responses[0].evaluation);
+  const stream = useEvaluationStream(session.id, { enabled: needsEvaluation });
+  const isEvaluating = stream.status === 'streaming';
+  const failedCount = Object.keys(stream.failures).length;
+
+  const getEvaluation = (question: Question): Evaluation | undefined => {
+    const streamed = currentEvaluations[question.id] ?? stream.evaluations[question.id];
+    return streamed ? toEvaluation(streamed) : question.responses[0]?.evaluation;
+  };
+
+  // Running summary while evaluations arrive; final summary once complete
+  const scores = questionsWithResponses
+    .map((q) => getEvaluation(q)?.overallScore)
+    .filter((score): score is number => score !== undefined);
+  const runningAverage = scores.length > 0
+    ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+    : 0;
+  const evaluationSummary = stream.summary ?? {
+    totalResponses: questions.length,
+    evaluatedResponses: scores.length,
+    averageScore: runningAverage,
+    performanceBand: getPerformanceBand(runningAverage),
+  };
+
   return (
     <div className="space-y-8">
       {/* Overall Score Section */}
@@ -333,7 +507,11 @@ export function ResultsClient({
               )}
               <div className="flex justify-between">
                 <dt className="text-gray-600">Level:</dt>
-                <dd className="font-medium text-gray-900 capitalize">{session.seniorityLevel}</dd>
+                <dd>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getSeniorityBadgeColor(session.seniorityLevel)}`}>
+                    {session.seniorityLevel}
+                  </span>
+                </dd>
               </div>
               <div className="flex justify-between">
                 <dt className="text-gray-600">Questions:</dt>
@@ -379,9 +557,49 @@ export function ResultsClient({
         <h2 className="text-2xl font-bold text-gray-900 mb-6">
           Results by Question
         </h2>
+        {isEvaluating && (
+          <p className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Evaluating responses ({scores.length} / {questionsWithResponses.length})...
+          </p>
+        )}
+        {stream.error && (
+          <div className="rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700 mb-4">
+            {stream.error}. Reload the page to resume evaluation.
+          </div>
+        )}
+        {!isEvaluating && failedCount > 0 && (
+          <div className="flex items-center justify-between gap-4 rounded-lg bg-orange-50 border border-orange-200 p-4 mb-4">
+            <p className="text-sm text-orange-800">
+              {failedCount} {failedCount === 1 ? 'response' : 'responses'} could not be evaluated.
+            </p>
+            <button
+              onClick={stream.retryFailed}
+              disabled={stream.isRetrying}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {stream.isRetrying ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="h-4 w-4" />
+              )}
+              Retry failed evaluations
+            </button>
+          </div>
+        )}
         <div className="space-y-4">
           {questionsWithResponses.map((question, index) => (
-            <QuestionCard key={question.id} question={question} index={index} />
+            <QuestionCard
+              key={question.id}
+              question={question}
+              index={index}
+              evaluation={getEvaluation(question)}
+              failure={stream.failures[question.id]?.message}
+              isEvaluating={isEvaluating}
+              onEvaluationChange={(evaluation) =>
+                setCurrentEvaluations((prev) => ({ ...prev, [question.id]: evaluation }))
+              }
+            />
           ))}
         </div>
       </div>
@@ -26,9 +26,8 @@ function ResultsLoading() {
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 flex items-center justify-center">
       <div className="text-center">
         <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-blue-600 mx-auto mb-6"></div>
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">Processing Results</h2>
-        <p className="text-gray-600">Evaluating your responses with AI...</p>
-        <p className="text-sm text-gray-500 mt-2">This may take a few seconds</p>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Loading Results</h2>
+        <p className="text-gray-600">Fetching your interview session...</p>
       </div>
     </div>
   );
@@ -39,48 +38,10 @@ function ResultsLoading() {
 // =========================================================================
 
 async function ResultsContent({ sessionId }: { sessionId: string }) {
-  // Trigger batch evaluation
   const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-  
-  let evaluationData;
-  try {
-    const evalResponse = await fetch(`${baseUrl}/api/evaluate/batch`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ sessionId }),
-      cache: 'no-store',
-    });
-
-    if (!evalResponse.ok) {
-      console.error('Evaluation failed:', await evalResponse.text());
-      throw new Error('Failed to evaluate responses');
-    }
-
-    const evalResult = await evalResponse.json();
-    evaluationData = evalResult.data;
-  } catch (error) {
-    console.error('Error triggering evaluation:', error);
-    return (
-      <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 flex items-center justify-center">
-        <div className="max-w-md bg-white rounded-xl shadow-lg p-8 text-center">
-          <div className="text-red-600 text-6xl mb-4">⚠️</div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Processing Error</h2>
-          <p className="text-gray-600 mb-6">
-            Failed to evaluate responses. Please try again.
-          </p>
-          <Link
-            href="/"
-            className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-          >
-            <ArrowLeft className="h-4 w-4" />
-            Back to Home
-          </Link>
-        </div>
-      </div>
-    );
-  }
 
-  // Fetch full session details with evaluations
+  // Fetch full session details with any evaluations already persisted.
+  // Missing evaluations are streamed in by the client component.
   const sessionResponse = await fetch(`${baseUrl}/api/sessions/${sessionId}`, {
     cache: 'no-store',
   });
@@ -123,7 +84,6 @@ async function ResultsContent({ sessionId }: { sessionId: string }) {
         <ResultsClient 
           session={sessionData.session}
           questions={sessionData.questions}
-          evaluationSummary={evaluationData}
         />
       </main>
     </div>
@@ -0,0 +1,328 @@
+// =========================================================================
+// AI Tech Interview - Question Review Client Component
+// Reorder, edit, delete, regenerate and add questions before starting
+// =========================================================================
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  Check,
+  Loader2,
+  Pencil,
+  Play,
+  Plus,
+  RefreshCw,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { formatTime, getSeniorityBadgeColor } from '@/lib/utils';
+import type { ApiResponse, ListQuestionsResponse, UpdateQuestionResponse } from '@/types/api';
+import type { InterviewQuestion, QuestionCategory } from '@/types/interview';
+
+// =========================================================================
+// Types
+// =========================================================================
+
+interface Session {
+  id: string;
+  roleTitle: string;
+  seniorityLevel: string;
+}
+
+interface ReviewClientProps {
+  session: Session;
+  questions: InterviewQuestion[];
+}
+
+const CATEGORY_OPTIONS: Array<{ value: QuestionCategory; label: string }> = [
+  { value: 'technical', label: 'Technical' },
+  { value: 'system-design', label: 'System Design' },
+  { value: 'behavioral', label: 'Behavioral' },
+  { value: 'problem-solving', label: 'Problem Solving' },
+];
+
+/**
+ * Call a question endpoint and return its data, throwing the API error message
+ */
+async function requestQuestions<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const result: ApiResponse<T> = await response.json();
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error?.message || 'Request failed');
+  }
+  return result.data;
+}
+
+// =========================================================================
+// Component
+// =========================================================================
+
+export function ReviewClient({ session, questions: initialQuestions }: ReviewClientProps) {
+  const [questions, setQuestions] = useState<InterviewQuestion[]>(initialQuestions);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [newQuestion, setNewQuestion] = useState('');
+  const [newCategory, setNewCategory] = useState<QuestionCategory>('technical');
+
+  const baseUrl = `/api/sessions/${session.id}/questions`;
+
+  /**
+   * Run one change at a time; `busyId` is the question being changed
+   * (or "new" when adding)
+   */
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const replaceQuestion = (question: InterviewQuestion) =>
+    setQuestions((current) => current.map((q) => (q.id === question.id ? question : q)));
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const order = questions.map((q) => q.id);
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+
+    run(questions[index].id, async () => {
+      const data = await requestQuestions<ListQuestionsResponse>(`${baseUrl}/order`, 'PUT', { questionIds: order });
+      setQuestions(data.questions);
+    });
+  };
+
+  const handleDelete = (id: string) =>
+    run(id, async () => {
+      const data = await requestQuestions<ListQuestionsResponse>(`${baseUrl}/${id}`, 'DELETE');
+      setQuestions(data.questions);
+    });
+
+  const handleRegenerate = (id: string) =>
+    run(id, async () => {
+      const data = await requestQuestions<UpdateQuestionResponse>(`${baseUrl}/${id}/regenerate`, 'POST');
+      replaceQuestion(data.question);
+    });
+
+  const handleSaveEdit = (id: string) =>
+    run(id, async () => {
+      const data = await requestQuestions<UpdateQuestionResponse>(`${baseUrl}/${id}`, 'PATCH', { question: draft });
+      replaceQuestion(data.question);
+      setEditingId(null);
+    });
+
+  const handleAdd = () =>
+    run('new', async () => {
+      const data = await requestQuestions<UpdateQuestionResponse>(baseUrl, 'POST', {
+        question: newQuestion,
+        category: newCategory,
+      });
+      setQuestions((current) => [...current, data.question]);
+      setNewQuestion('');
+    });
+
+  const isBusy = busyId !== null;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="bg-white rounded-lg border border-gray-200 p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">{questions.length} questions ready</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Reorder, edit, regenerate or remove questions, or add your own. Questions are fixed once you answer the first one.
+          </p>
+        </div>
+        <Link
+          href={`/interview/${session.id}`}
+          aria-disabled={isBusy}
+          className={`flex items-center justify-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors shrink-0 ${
+            isBusy ? 'pointer-events-none opacity-50' : ''
+          }`}
+        >
+          <Play className="h-4 w-4" />
+          Start Interview
+        </Link>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700" role="alert">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {/* Questions */}
+      <ol className="space-y-3">
+        {questions.map((question, index) => {
+          const isEditing = editingId === question.id;
+          const isWorking = busyId === question.id;
+
+          return (
+            <li key={question.id} className="bg-white rounded-lg border border-gray-200 p-5">
+              <div className="flex items-start gap-4">
+                <span className="flex items-center justify-center w-9 h-9 rounded-full bg-blue-100 text-blue-700 font-bold shrink-0">
+                  {question.questionNumber}
+                </span>
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+                    <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-700">{question.category}</span>
+                    <span className={`px-2 py-0.5 rounded ${getSeniorityBadgeColor(question.difficulty)}`}>
+                      {question.difficulty}
+                    </span>
+                    <span className="text-gray-500">
+                      {question.topicName ?? 'No topic'} · {formatTime(question.timeLimitSeconds)}
+                      {question.authorType === 'human' && ' · Human-authored'}
+                      {question.source === 'resume' && ' · From your resume'}
+                      {question.source === 'gap' && ' · Skill gap'}
+                      {question.repeatedFromId && ' · Asked before'}
+                    </span>
+                  </div>
+
+                  {isEditing ? (
+                    <div className="space-y-2">
+                      <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        rows={3}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        aria-label={`Edit question ${question.questionNumber}`}
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleSaveEdit(question.id)}
+                          disabled={isBusy || draft.trim().length < 10}
+                          className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          {isWorking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          disabled={isWorking}
+                          className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                        >
+                          <X className="h-4 w-4" />
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className={`text-gray-900 ${isWorking ? 'opacity-50' : ''}`}>{question.question}</p>
+                  )}
+                </div>
+
+                {!isEditing && (
+                  <div className="flex items-center gap-1 shrink-0">
+                    {isWorking && <Loader2 className="h-4 w-4 animate-spin text-blue-600 mr-1" />}
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={isBusy || index === 0}
+                      className="p-1.5 text-gray-500 hover:text-gray-900 rounded disabled:opacity-30"
+                      aria-label="Move up"
+                      title="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={isBusy || index === questions.length - 1}
+                      className="p-1.5 text-gray-500 hover:text-gray-900 rounded disabled:opacity-30"
+                      aria-label="Move down"
+                      title="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingId(question.id);
+                        setDraft(question.question);
+                      }}
+                      disabled={isBusy}
+                      className="p-1.5 text-gray-500 hover:text-gray-900 rounded disabled:opacity-30"
+                      aria-label="Edit"
+                      title="Edit"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRegenerate(question.id)}
+                      disabled={isBusy}
+                      className="p-1.5 text-gray-500 hover:text-blue-600 rounded disabled:opacity-30"
+                      aria-label="Regenerate"
+                      title="Replace with a new AI question on the same topic"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(question.id)}
+                      disabled={isBusy || questions.length === 1}
+                      className="p-1.5 text-gray-500 hover:text-red-600 rounded disabled:opacity-30"
+                      aria-label="Delete"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* Add Question */}
+      <div className="bg-white rounded-lg border border-gray-200 p-5 space-y-3">
+        <label htmlFor="newQuestion" className="block text-sm font-semibold text-gray-700">
+          Add Your Own Question
+        </label>
+        <textarea
+          id="newQuestion"
+          value={newQuestion}
+          onChange={(e) => setNewQuestion(e.target.value)}
+          rows={2}
+          placeholder="e.g., How would you migrate a monolith's database to per-service schemas?"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value as QuestionCategory)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            aria-label="Category"
+          >
+            {CATEGORY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={isBusy || newQuestion.trim().length < 10}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50"
+          >
+            {busyId === 'new' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add Question
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
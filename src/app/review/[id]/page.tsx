@@ -0,0 +1,134 @@
+// =========================================================================
+// AI Tech Interview - Question Review Page (Server Component)
+// Lets the user adjust generated questions before the interview starts
+// =========================================================================
+
+import { Suspense } from 'react';
+import { notFound, redirect } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { ReviewClient } from './client';
+
+// =========================================================================
+// Types
+// =========================================================================
+
+interface ReviewPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// =========================================================================
+// Loading Component
+// =========================================================================
+
+function ReviewLoading() {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 flex items-center justify-center">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading questions...</p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Shown while questions are still being generated, or when generation failed
+ */
+function GenerationPending({ error }: { error?: string }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100 flex items-center justify-center">
+      <div className="text-center">
+        {error ? (
+          <p className="text-red-600">Question generation failed: {error}</p>
+        ) : (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Questions are still being generated. Refresh this page in a moment.</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// =========================================================================
+// Review Content Component
+// =========================================================================
+
+async function ReviewContent({ sessionId }: { sessionId: string }) {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+  const sessionResponse = await fetch(`${baseUrl}/api/sessions/${sessionId}`, {
+    cache: 'no-store',
+  });
+
+  if (!sessionResponse.ok) {
+    notFound();
+  }
+
+  const { data: sessionData } = await sessionResponse.json();
+
+  // Once an answer is saved the questions are fixed
+  if (sessionData.responses.length > 0) {
+    redirect(`/interview/${sessionId}`);
+  }
+
+  // Questions are generated in the background after the session is created
+  if (sessionData.session.generationStage !== 'ready') {
+    return (
+      <GenerationPending
+        error={
+          sessionData.session.generationStage === 'failed'
+            ? (sessionData.session.generationError ?? 'Unknown error')
+            : undefined
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-gray-100">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <Link
+              href="/"
+              className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              <ArrowLeft className="h-5 w-5" />
+              <span className="text-sm font-medium">Home</span>
+            </Link>
+
+            <div className="text-center">
+              <h1 className="text-lg font-semibold text-gray-900">Review Questions</h1>
+              <p className="text-xs text-gray-500">{sessionData.session.roleTitle}</p>
+            </div>
+
+            <div className="w-20">{/* Spacer for centering */}</div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        <ReviewClient session={sessionData.session} questions={sessionData.questions} />
+      </main>
+    </div>
+  );
+}
+
+// =========================================================================
+// Page Component
+// =========================================================================
+
+export default async function ReviewPage({ params }: ReviewPageProps) {
+  const { id } = await params;
+
+  return (
+    <Suspense fallback={<ReviewLoading />}>
+      <ReviewContent sessionId={id} />
+    </Suspense>
+  );
+}
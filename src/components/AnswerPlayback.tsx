@@ -0,0 +1,116 @@
+// =========================================================================
+// AI Tech Interview - Answer Playback Component
+// Plays a recorded answer and highlights the transcript word being spoken
+// =========================================================================
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import type { WordTiming } from '@/types/interview';
+
+// =========================================================================
+// Types
+// =========================================================================
+
+export interface AnswerPlaybackProps {
+  audioUrl: string;
+  transcription: string;
+  /** Word timings from the recognizer; without them the transcript is plain text */
+  wordTimings?: WordTiming[];
+}
+
+/**
+ * Index of the last word that has started by `timeMs`, or -1 before the first
+ */
+function findActiveWord(wordTimings: WordTiming[], timeMs: number): number {
+  let low = 0;
+  let high = wordTimings.length - 1;
+  let active = -1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (wordTimings[middle].offsetMs <= timeMs) {
+      active = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return active;
+}
+
+// =========================================================================
+// Component
+// =========================================================================
+
+export function AnswerPlayback({ audioUrl, transcription, wordTimings }: AnswerPlaybackProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const hasTimings = wordTimings !== undefined && wordTimings.length > 0;
+
+  // timeupdate only fires a few times a second, so follow playback per frame
+  useEffect(() => {
+    if (!isPlaying || !hasTimings) return;
+
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (audio) {
+        setActiveIndex(findActiveWord(wordTimings, audio.currentTime * 1000));
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, hasTimings, wordTimings]);
+
+  const seekTo = (index: number) => {
+    const audio = audioRef.current;
+    if (!audio || !wordTimings) return;
+
+    audio.currentTime = wordTimings[index].offsetMs / 1000;
+    setActiveIndex(index);
+    void audio.play().catch(() => undefined);
+  };
+
+  return (
+    <div className="space-y-3">
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        controls
+        preload="metadata"
+        className="w-full"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        onSeeked={(e) => hasTimings && setActiveIndex(findActiveWord(wordTimings, e.currentTarget.currentTime * 1000))}
+      />
+
+      {hasTimings ? (
+        <p className="text-sm text-gray-700 leading-relaxed">
+          {wordTimings.map((timing, index) => (
+            <span key={`${index}-${timing.offsetMs}`}>
+              <button
+                type="button"
+                onClick={() => seekTo(index)}
+                className={cn(
+                  'rounded px-0.5 -mx-0.5 transition-colors hover:bg-blue-100',
+                  index === activeIndex && 'bg-yellow-200 text-gray-900'
+                )}
+                title="Play from here"
+              >
+                {timing.word}
+              </button>{' '}
+            </span>
+          ))}
+        </p>
+      ) : (
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">{transcription}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+// =========================================================================
+// AI Tech Interview - Delivery Metrics Component
+// Pace, filler words, repetitions and pauses measured from a recorded answer
+// =========================================================================
+
+'use client';
+
+import { cn } from '@/lib/utils';
+import { LONG_PAUSE_MS, TYPICAL_PACE } from '@/lib/speech-metrics';
+import type { SpeechMetrics } from '@/types/interview';
+
+// =========================================================================
+// Types
+// =========================================================================
+
+export interface DeliveryMetricsProps {
+  metrics: SpeechMetrics;
+}
+
+interface Metric {
+  label: string;
+  value: string;
+  hint: string;
+  /** Outside the typical range */
+  isFlagged: boolean;
+}
+
+/**
+ * Filler rate above which fillers start to distract (about 1 word in 20)
+ */
+const HIGH_FILLER_RATE = 0.05;
+
+function toMetrics(metrics: SpeechMetrics): Metric[] {
+  const topFillers = Object.entries(metrics.fillers)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([filler, count]) => `"${filler}" ${count}x`)
+    .join(', ');
+
+  const list: Metric[] = [];
+
+  if (metrics.wordsPerMinute !== undefined) {
+    const pace = metrics.wordsPerMinute;
+    list.push({
+      label: 'Pace',
+      value: `${pace} wpm`,
+      hint: pace < TYPICAL_PACE.min ? 'Slow' : pace > TYPICAL_PACE.max ? 'Fast' : `Typical is ${TYPICAL_PACE.min}-${TYPICAL_PACE.max}`,
+      isFlagged: pace < TYPICAL_PACE.min || pace > TYPICAL_PACE.max,
+    });
+  }
+
+  list.push(
+    {
+      label: 'Filler Words',
+      value: `${metrics.fillerCount} (${(metrics.fillerRate * 100).toFixed(1)}%)`,
+      hint: topFillers || 'None detected',
+      isFlagged: metrics.fillerRate > HIGH_FILLER_RATE,
+    },
+    {
+      label: 'Repetitions',
+      value: String(metrics.repetitionCount),
+      hint: 'Words or phrases said twice in a row',
+      isFlagged: metrics.repetitionCount > 2,
+    }
+  );
+
+  if (metrics.longestPauseMs !== undefined) {
+    list.push({
+      label: 'Longest Pause',
+      value: `${(metrics.longestPauseMs / 1000).toFixed(1)}s`,
+      hint: 'Between two words',
+      isFlagged: metrics.longestPauseMs > LONG_PAUSE_MS,
+    });
+  }
+
+  if (metrics.silenceRatio !== undefined) {
+    list.push({
+      label: 'Silence',
+      value: `${Math.round(metrics.silenceRatio * 100)}%`,
+      hint: 'Of the recording',
+      isFlagged: false,
+    });
+  }
+
+  return list;
+}
+
+// =========================================================================
+// Component
+// =========================================================================
+
+export function DeliveryMetrics({ metrics }: DeliveryMetricsProps) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+      {toMetrics(metrics).map((metric) => (
+        <div
+          key={metric.label}
+          className={cn(
+            'rounded-lg border p-3 bg-white',
+            metric.isFlagged ? 'border-orange-300' : 'border-gray-200'
+          )}
+        >
+          <div className="text-xs text-gray-500">{metric.label}</div>
+          <div className={cn('text-lg font-semibold', metric.isFlagged ? 'text-orange-700' : 'text-gray-900')}>
+            {metric.value}
+          </div>
+          <div className="text-xs text-gray-500 truncate" title={metric.hint}>
+            {metric.hint}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+// =========================================================================
+// AI Tech Interview - Evaluation History Component
+// Re-evaluates a response and compares its evaluation versions side by side
+// =========================================================================
+
+'use client';
+
+import { useState } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { EvaluationScores, ResponseEvaluation } from '@/types/interview';
+
+// =========================================================================
+// Types
+// =========================================================================
+
+export interface EvaluationHistoryProps {
+  responseId: string;
+  /** Called when a re-evaluation or version switch changes the current evaluation */
+  onCurrentChange?: (evaluation: ResponseEvaluation) => void;
+}
+
+const CRITERIA: Array<{ key: keyof EvaluationScores; label: string }> = [
+  { key: 'relevance', label: 'Relevance' },
+  { key: 'technicalAccuracy', label: 'Technical Accuracy' },
+  { key: 'clarity', label: 'Clarity' },
+  { key: 'depth', label: 'Depth' },
+  { key: 'structure', label: 'Structure' },
+  { key: 'confidence', label: 'Confidence' },
+];
+
+// =========================================================================
+// Component
+// =========================================================================
+
+export function EvaluationHistory({ responseId, onCurrentChange }: EvaluationHistoryProps) {
+  const [versions, setVersions] = useState<ResponseEvaluation[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isReevaluating, setIsReevaluating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async <T,>(url: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(url, init);
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error?.message || 'Request failed');
+    }
+    return result.data as T;
+  };
+
+  const loadVersions = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await request<{ evaluations: ResponseEvaluation[] }>(
+        `/api/responses/${responseId}/evaluations`
+      );
+      setVersions(data.evaluations);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load evaluation history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const reevaluate = async () => {
+    setIsReevaluating(true);
+    setError(null);
+    try {
+      const { evaluation } = await request<{ evaluation: ResponseEvaluation }>(
+        `/api/responses/${responseId}/evaluations`,
+        { method: 'POST' }
+      );
+      onCurrentChange?.(evaluation);
+      await loadVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to re-evaluate response');
+    } finally {
+      setIsReevaluating(false);
+    }
+  };
+
+  const makeCurrent = async (evaluationId: string) => {
+    setError(null);
+    try {
+      const { evaluation } = await request<{ evaluation: ResponseEvaluation }>(
+        `/api/responses/${responseId}/evaluations/${evaluationId}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ isCurrent: true }),
+        }
+      );
+      onCurrentChange?.(evaluation);
+      setVersions((prev) =>
+        prev?.map((v) => ({ ...v, isCurrent: v.id === evaluation.id })) ?? prev
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change current evaluation');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Evaluation History
+        </h4>
+        <div className="flex items-center gap-2">
+          {versions === null && (
+            <button
+              onClick={loadVersions}
+              disabled={isLoading}
+              className="text-xs font-medium text-blue-700 hover:text-blue-800 disabled:opacity-50"
+            >
+              {isLoading ? 'Loading...' : 'Compare versions'}
+            </button>
+          )}
+          <button
+            onClick={reevaluate}
+            disabled={isReevaluating}
+            className="flex items-center gap-1 rounded-md border border-gray-300 bg-white px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isReevaluating ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <RotateCcw className="h-3 w-3" />
+            )}
+            Re-evaluate
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+      {versions && versions.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-left">
+                <th className="p-3 font-medium text-gray-500">Criterion</th>
+                {versions.map((v) => (
+                  <th key={v.id} className={cn('p-3 font-medium', v.isCurrent ? 'bg-blue-50 text-blue-900' : 'text-gray-700')}>
+                    <div>v{v.version}{v.isCurrent && ' (current)'}</div>
+                    <div className="text-xs font-normal text-gray-500">
+                      {v.promptVersion ?? 'legacy prompt'} · {v.model ?? 'unknown model'}
+                    </div>
+                    <div className="text-xs font-normal text-gray-500">
+                      {new Date(v.evaluatedAt).toLocaleString()}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {CRITERIA.map(({ key, label }) => (
+                <tr key={key} className="border-b border-gray-100">
+                  <td className="p-3 text-gray-600">{label}</td>
+                  {versions.map((v) => (
+                    <td key={v.id} className={cn('p-3 text-gray-900', v.isCurrent && 'bg-blue-50')}>
+                      {v.scores[key]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="border-b border-gray-100 font-semibold">
+                <td className="p-3 text-gray-700">Overall</td>
+                {versions.map((v) => (
+                  <td key={v.id} className={cn('p-3 text-gray-900', v.isCurrent && 'bg-blue-50')}>
+                    {v.overallScore}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td className="p-3" />
+                {versions.map((v) => (
+                  <td key={v.id} className={cn('p-3', v.isCurrent && 'bg-blue-50')}>
+                    {!v.isCurrent && (
+                      <button
+                        onClick={() => makeCurrent(v.id)}
+                        className="text-xs font-medium text-blue-700 hover:text-blue-800"
+                      >
+                        Make current
+                      </button>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@
 
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   Mic,
@@ -26,7 +26,9 @@ import { useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
 import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
 import { useOfflineSupport } from '@/hooks/useOfflineSupport';
 import { PermissionsCheck } from '@/components/PermissionsCheck';
-import { formatTime, cn } from '@/lib/utils';
+import { formatTime, cn, getSeniorityBadgeColor } from '@/lib/utils';
+import { getPersonaScript } from '@/lib/personas';
+import type { InterviewerPersona, InterviewLanguage, WordTiming } from '@/types/interview';
 
 // =========================================================================
 // Types
@@ -40,6 +42,7 @@ interface Question {
   difficulty: string;
   timeLimit: number;
   topicName?: string;
+  parentQuestionId?: string;
   responses?: Array<{
     id: string;
     transcription?: string;
@@ -68,6 +71,8 @@ interface Session {
   id: string;
   roleTitle: string;
   seniorityLevel: string;
+  language: InterviewLanguage;
+  persona: InterviewerPersona;
 }
 
 interface InterviewRoomProps {
@@ -131,24 +136,29 @@ function Timer({ seconds, maxSeconds, isWarning }: { seconds: number; maxSeconds
 // Main Component
 // =========================================================================
 
-export function InterviewRoom({ session, questions }: InterviewRoomProps) {
+export function InterviewRoom({ session, questions: initialQuestions }: InterviewRoomProps) {
   const router = useRouter();
   
   // State
   const [permissionsGranted, setPermissionsGranted] = useState(false);
+  const [questions, setQuestions] = useState<Question[]>(initialQuestions);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [phase, setPhase] = useState<InterviewPhase>('intro');
   const [timer, setTimer] = useState(0);
   const [questionStates, setQuestionStates] = useState<Map<string, QuestionState>>(new Map());
   const [isSaving, setIsSaving] = useState(false);
+  const [isCheckingFollowUp, setIsCheckingFollowUp] = useState(false);
   const [questionReadComplete, setQuestionReadComplete] = useState(false);
   const [hasSpokenStarted, setHasSpokenStarted] = useState(false);
+  // How long after the audio recording the recognizer started counting word offsets
+  const recognizerDelayMsRef = useRef(0);
   
   // Hooks
   const recorder = useAudioRecorder();
-  const tts = useSpeechSynthesis();
-  const stt = useSpeechRecognition();
+  const tts = useSpeechSynthesis(session.language, session.persona);
+  const stt = useSpeechRecognition(session.language);
   const { saveResponseOffline, state: offlineState } = useOfflineSupport();
+  const script = getPersonaScript(session.persona, session.language);
   
   const currentQuestion = questions[currentIndex];
   const isLastQuestion = currentIndex === questions.length - 1;
@@ -176,7 +186,7 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
     if (phase === 'question' && currentQuestion && tts.state.status === 'idle' && !isAnswered) {
       setQuestionReadComplete(false);
       setHasSpokenStarted(false);
-      readQuestion();
+      announceQuestion();
     } else if (isAnswered && phase === 'question') {
       // If already answered, mark as read complete immediately
       setQuestionReadComplete(true);
@@ -201,7 +211,7 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
   useEffect(() => {
     const initialStates = new Map<string, QuestionState>();
     
-    questions.forEach((question) => {
+    initialQuestions.forEach((question) => {
       if (question.responses && question.responses.length > 0) {
         const latestResponse = question.responses[question.responses.length - 1];
         initialStates.set(question.id, {
@@ -216,7 +226,7 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
     });
     
     setQuestionStates(initialStates);
-  }, [questions]);
+  }, [initialQuestions]);
 
   // Start the interview
   const startInterview = useCallback(() => {
@@ -231,24 +241,83 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
     await tts.speak(currentQuestion.question);
   }, [currentQuestion, tts]);
   
+  // Read question aloud after the persona's introduction or transition
+  const announceQuestion = useCallback(async () => {
+    if (!currentQuestion) return;
+    
+    let leadIn = script.nextQuestion;
+    if (currentIndex === 0) {
+      leadIn = script.introduction(session.roleTitle, questions.length);
+    } else if (currentQuestion.parentQuestionId) {
+      leadIn = script.followUp;
+    } else if (isLastQuestion) {
+      leadIn = script.lastQuestion;
+    }
+    
+    await tts.speak(`${leadIn} ${currentQuestion.question}`);
+  }, [currentQuestion, currentIndex, isLastQuestion, questions.length, script, session.roleTitle, tts]);
+  
+  // End the interview with the persona's closing line
+  const completeInterview = useCallback(() => {
+    setPhase('complete');
+    void tts.speak(script.closing);
+  }, [script, tts]);
+  
   // Start recording response
   const startRecording = useCallback(async () => {
     setTimer(0);
     setPhase('recording');
     
     // Start audio recording and speech recognition in parallel
-    await Promise.all([
+    const [recordingStartedAt, listeningStartedAt] = await Promise.all([
       recorder.startRecording(),
       stt.startListening(),
     ]);
+    recognizerDelayMsRef.current =
+      recordingStartedAt !== null && listeningStartedAt !== null ? listeningStartedAt - recordingStartedAt : 0;
   }, [recorder, stt]);
   
+  // Ask whether the saved answer warrants a follow-up; insert it after its parent
+  const requestFollowUp = useCallback(async (parent: Question) => {
+    setIsCheckingFollowUp(true);
+    
+    try {
+      const response = await fetch(`/api/sessions/${session.id}/questions/${parent.id}/follow-up`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to generate follow-up question');
+      }
+      
+      const followUp = result.data.followUp as Question | null;
+      if (!followUp) return;
+      
+      setQuestions((prev) => {
+        if (prev.some((q) => q.id === followUp.id)) return prev;
+        
+        // Mirror the server-side renumbering of later questions
+        const parentIndex = prev.findIndex((q) => q.id === parent.id);
+        const shifted = prev.map((q) =>
+          q.questionNumber > parent.questionNumber ? { ...q, questionNumber: q.questionNumber + 1 } : q
+        );
+        return [...shifted.slice(0, parentIndex + 1), followUp, ...shifted.slice(parentIndex + 1)];
+      });
+    } catch (error) {
+      // A missing follow-up should never block the interview
+      console.error('Failed to get follow-up question:', error);
+    } finally {
+      setIsCheckingFollowUp(false);
+    }
+  }, [session.id]);
+  
   // Stop recording and save response
   const stopRecording = useCallback(async () => {
     setPhase('review');
     
     // Stop both recording and recognition
-    const [audioBlob, transcription] = await Promise.all([
+    const [audioBlob, recognition] = await Promise.all([
       recorder.stopRecording(),
       stt.stopListening(),
     ]);
@@ -256,14 +325,20 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
     if (!currentQuestion) return;
     
     setIsSaving(true);
+    let savedOnline = false;
     
     try {
       // Prepare response data
       const responseData = {
         questionId: currentQuestion.id,
         sessionId: session.id,
-        transcription: transcription || stt.state.transcript,
+        transcription: recognition.transcript || stt.state.transcript,
         durationSeconds: timer,
+        // Word offsets are relative to the recognizer; shift them onto the recording
+        wordTimings: recognition.wordTimings.map((timing) => ({
+          ...timing,
+          offsetMs: Math.max(0, Math.round(timing.offsetMs + recognizerDelayMsRef.current)),
+        })),
       };
       
       // Try to save online first
@@ -274,6 +349,9 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
           formData.append('sessionId', responseData.sessionId);
           formData.append('transcription', responseData.transcription);
           formData.append('durationSeconds', String(responseData.durationSeconds));
+          if (responseData.wordTimings.length > 0) {
+            formData.append('wordTimings', JSON.stringify(responseData.wordTimings));
+          }
           
           if (audioBlob) {
             formData.append('audio', audioBlob, 'response.webm');
@@ -298,6 +376,7 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
               });
               return next;
             });
+            savedOnline = true;
           } else {
             throw new Error('Failed to save response');
           }
@@ -314,9 +393,20 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
       setIsSaving(false);
     }
     
+    // Follow-ups need the saved transcript on the server, so skip them offline
+    if (savedOnline && !currentQuestion.parentQuestionId) {
+      await requestFollowUp(currentQuestion);
+    }
+    
     // Helper to save offline
     async function saveOffline(
-      data: { questionId: string; sessionId: string; transcription: string; durationSeconds: number },
+      data: {
+        questionId: string;
+        sessionId: string;
+        transcription: string;
+        durationSeconds: number;
+        wordTimings: WordTiming[];
+      },
       blob: Blob | null
     ) {
       await saveResponseOffline({
@@ -325,6 +415,7 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
         sessionId: data.sessionId,
         transcription: data.transcription,
         durationSeconds: data.durationSeconds,
+        wordTimings: data.wordTimings,
         audioBlob: blob ?? new Blob(),
         recordedAt: Date.now(),
       });
@@ -339,7 +430,7 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
         return next;
       });
     }
-  }, [currentQuestion, session.id, timer, recorder, stt, offlineState.isOnline, saveResponseOffline]);
+  }, [currentQuestion, session.id, timer, recorder, stt, offlineState.isOnline, saveResponseOffline, requestFollowUp]);
   
   // Skip current question
   const skipQuestion = useCallback(() => {
@@ -355,18 +446,18 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
     });
     
     if (isLastQuestion) {
-      setPhase('complete');
+      completeInterview();
     } else {
       setCurrentIndex((i) => i + 1);
       setPhase('question');
       setTimer(0);
     }
-  }, [currentQuestion, isLastQuestion, recorder, stt]);
+  }, [currentQuestion, isLastQuestion, recorder, stt, completeInterview]);
   
   // Move to next question
   const nextQuestion = useCallback(() => {
     if (isLastQuestion) {
-      setPhase('complete');
+      completeInterview();
     } else {
       setCurrentIndex((i) => i + 1);
       setPhase('question');
@@ -375,7 +466,7 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
       setHasSpokenStarted(false);
       stt.resetTranscript();
     }
-  }, [isLastQuestion, stt]);
+  }, [isLastQuestion, stt, completeInterview]);
   
   // Finish interview
   const finishInterview = useCallback(() => {
@@ -494,6 +585,17 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
                 )}>
                   {currentQuestion.category}
                 </span>
+                <span className={cn(
+                  'inline-block px-2 py-0.5 rounded text-xs font-medium capitalize ml-2',
+                  getSeniorityBadgeColor(currentQuestion.difficulty)
+                )}>
+                  {currentQuestion.difficulty}
+                </span>
+                {currentQuestion.parentQuestionId && (
+                  <span className="inline-block px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-700 ml-2">
+                    Follow-up
+                  </span>
+                )}
                 {currentQuestion.topicName && (
                   <span className="text-xs text-gray-500 ml-2">{currentQuestion.topicName}</span>
                 )}
@@ -739,6 +841,13 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
                     <audio controls src={recorder.state.audioUrl} className="w-full" />
                   )}
                   
+                  {isCheckingFollowUp && (
+                    <div className="flex items-center gap-2 text-sm text-gray-500">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      <span>Checking whether a follow-up question is needed...</span>
+                    </div>
+                  )}
+                  
                   <div className="flex items-center justify-between pt-4">
                     <button
                       onClick={() => {
@@ -755,7 +864,8 @@ export function InterviewRoom({ session, questions }: InterviewRoomProps) {
                     
                     <button
                       onClick={nextQuestion}
-                      className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
+                      disabled={isCheckingFollowUp}
+                      className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       {isLastQuestion ? 'Finish Interview' : 'Next Question'}
                       <ChevronRight className="h-5 w-5" />
@@ -7,6 +7,7 @@
 
 import { CheckCircle, AlertCircle, TrendingUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { ScoreRange } from '@/types/interview';
 
 // =========================================================================
 // Types
@@ -18,6 +19,8 @@ export interface ScoreCardProps {
   maxScore?: number;
   description?: string;
   showBar?: boolean;
+  /** Min/max across evaluator samples, shown as a confidence range */
+  range?: ScoreRange;
 }
 
 // =========================================================================
@@ -29,9 +32,11 @@ export function ScoreCard({
   score, 
   maxScore = 100,
   description,
-  showBar = true 
+  showBar = true,
+  range,
 }: ScoreCardProps) {
   const percentage = Math.round((score / maxScore) * 100);
+  const hasRange = range !== undefined && range.max > range.min;
   
   const getColor = (pct: number) => {
     if (pct >= 90) return 'text-green-600 bg-green-50 border-green-200';
@@ -60,15 +65,31 @@ export function ScoreCard({
           {getIcon(percentage)}
           <span className="font-medium text-sm">{label}</span>
         </div>
-        <span className="text-2xl font-bold">{score}</span>
+        <div className="text-right">
+          <span className="text-2xl font-bold">{score}</span>
+          {hasRange && (
+            <p className="text-xs opacity-80" title="Range across evaluator samples">
+              {range.min}–{range.max}
+            </p>
+          )}
+        </div>
       </div>
       
       {showBar && (
-        <div className="w-full h-2 bg-white/50 rounded-full overflow-hidden">
+        <div className="relative w-full h-2 bg-white/50 rounded-full overflow-hidden">
           <div
             className={cn('h-full transition-all duration-500', getBarColor(percentage))}
             style={{ width: `${percentage}%` }}
           />
+          {hasRange && (
+            <div
+              className="absolute inset-y-0 bg-current opacity-30"
+              style={{
+                left: `${(range.min / maxScore) * 100}%`,
+                width: `${((range.max - range.min) / maxScore) * 100}%`,
+              }}
+            />
+          )}
         </div>
       )}
       
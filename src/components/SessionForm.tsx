@@ -1,42 +1,326 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, type ChangeEvent } from 'react';
 import { useRouter } from 'next/navigation';
-import { Loader2, Briefcase, FileText, Sparkles } from 'lucide-react';
+import { Loader2, Briefcase, FileText, Sparkles, Check, Circle, Library, SlidersHorizontal, UserCheck, Upload, FileUser, Languages, Mic } from 'lucide-react';
+import { useSessionProgress } from '@/hooks/useSessionProgress';
+import { DEFAULT_LANGUAGE, INTERVIEW_LANGUAGES, LANGUAGE_SETTINGS } from '@/lib/languages';
+import { DEFAULT_PERSONA, INTERVIEWER_PERSONAS, PERSONA_SETTINGS } from '@/lib/personas';
+import type {
+  CreateSessionInput,
+  GenerationStage,
+  InterviewerPersona,
+  InterviewLanguage,
+  InterviewTemplateSummary,
+  QuestionCategory,
+  SeniorityInference,
+  SeniorityLevel,
+  SessionSourceMode,
+} from '@/types/interview';
+import type { ExtractJobPostingResponse, ExtractResumeResponse } from '@/types/api';
 
 interface SessionFormProps {
-  onSubmit?: (data: { roleTitle: string; companyName?: string; jobDescription: string }) => Promise<void>;
+  onSubmit?: (data: CreateSessionInput) => Promise<void>;
+}
+
+type LengthMode = 'default' | 'questions' | 'duration';
+
+/**
+ * localStorage key used to resume progress tracking after a page reload
+ */
+const PENDING_SESSION_KEY = 'ai-interview:pending-session';
+
+const SOURCE_MODE_OPTIONS: Array<{ mode: SessionSourceMode; label: string }> = [
+  { mode: 'job-description', label: 'Job description' },
+  { mode: 'template', label: 'Template' },
+  { mode: 'mixed', label: 'Template + job description' },
+];
+
+const SENIORITY_OPTIONS: Array<{ level: SeniorityLevel; label: string }> = [
+  { level: 'junior', label: 'Junior' },
+  { level: 'mid', label: 'Mid' },
+  { level: 'senior', label: 'Senior' },
+  { level: 'staff', label: 'Staff' },
+  { level: 'principal', label: 'Principal' },
+];
+
+const CATEGORY_OPTIONS: Array<{ category: QuestionCategory; label: string }> = [
+  { category: 'technical', label: 'Technical' },
+  { category: 'system-design', label: 'System design' },
+  { category: 'behavioral', label: 'Behavioral' },
+  { category: 'problem-solving', label: 'Problem solving' },
+];
+
+/**
+ * Split a comma-separated topic list, dropping blanks
+ */
+function parseTopics(value: string): string[] | undefined {
+  const topics = value.split(',').map((t) => t.trim()).filter(Boolean);
+  return topics.length > 0 ? topics : undefined;
+}
+
+/**
+ * Send a file to a document import endpoint and return the extracted data
+ */
+async function uploadDocument<T>(endpoint: string, file: File): Promise<T> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await fetch(endpoint, { method: 'POST', body: formData });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || 'Failed to import the file');
+  }
+  return result.data as T;
+}
+
+const GENERATION_STEPS: Array<{ stage: GenerationStage; label: string }> = [
+  { stage: 'pending', label: 'Creating session' },
+  { stage: 'topic-extraction', label: 'Extracting topics from the job description' },
+  { stage: 'question-generation', label: 'Generating interview questions' },
+];
+
+function GenerationProgress({ stage }: { stage: GenerationStage }) {
+  const activeIndex = stage === 'ready'
+    ? GENERATION_STEPS.length
+    : GENERATION_STEPS.findIndex((step) => step.stage === stage);
+
+  return (
+    <ol className="space-y-2" aria-live="polite">
+      {GENERATION_STEPS.map((step, index) => (
+        <li key={step.stage} className="flex items-center gap-2 text-sm">
+          {index < activeIndex ? (
+            <Check className="h-4 w-4 text-green-600" />
+          ) : index === activeIndex ? (
+            <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />
+          ) : (
+            <Circle className="h-4 w-4 text-gray-300" />
+          )}
+          <span className={index <= activeIndex ? 'text-gray-900' : 'text-gray-400'}>
+            {step.label}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
 }
 
 export function SessionForm({ onSubmit }: SessionFormProps) {
   const router = useRouter();
   const [roleTitle, setRoleTitle] = useState('');
   const [companyName, setCompanyName] = useState('');
+  const [language, setLanguage] = useState<InterviewLanguage>(DEFAULT_LANGUAGE);
+  const [persona, setPersona] = useState<InterviewerPersona>(DEFAULT_PERSONA);
   const [jobDescription, setJobDescription] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  const [mode, setMode] = useState<SessionSourceMode>('job-description');
+  const [templateId, setTemplateId] = useState('');
+  const [templates, setTemplates] = useState<InterviewTemplateSummary[]>([]);
+  const [lengthMode, setLengthMode] = useState<LengthMode>('default');
+  const [lengthValue, setLengthValue] = useState('');
+  // Inferred seniority the user confirms (or changes) before generation
+  const [seniority, setSeniority] = useState<SeniorityInference | null>(null);
+  const [confirmedLevel, setConfirmedLevel] = useState<SeniorityLevel | null>(null);
+  const [isInferring, setIsInferring] = useState(false);
+  // Uploaded job posting whose extracted text is in the textarea
+  const [importedPosting, setImportedPosting] = useState<ExtractJobPostingResponse | null>(null);
+  const [resumeText, setResumeText] = useState('');
+  const [importedResume, setImportedResume] = useState<ExtractResumeResponse | null>(null);
+  const [importing, setImporting] = useState<'posting' | 'resume' | null>(null);
+  const [categoryWeights, setCategoryWeights] = useState<Partial<Record<QuestionCategory, string>>>({});
+  const [includeTopics, setIncludeTopics] = useState('');
+  const [excludeTopics, setExcludeTopics] = useState('');
+  const [repeatWeakQuestions, setRepeatWeakQuestions] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pendingSessionId, setPendingSessionId] = useState<string | null>(null);
+
+  const { progress, error: progressError } = useSessionProgress(pendingSessionId);
+  const generationFailed = progress?.stage === 'failed' || Boolean(progressError);
+  const isGenerating = Boolean(pendingSessionId) && !generationFailed;
+  const isLoading = isSubmitting || isGenerating || isInferring || importing !== null;
+  const displayedError = error ?? (generationFailed ? (progress?.error ?? progressError) : null);
+
+  // Resume tracking a session that was still generating before a reload
+  useEffect(() => {
+    const storedSessionId = localStorage.getItem(PENDING_SESSION_KEY);
+    if (storedSessionId) {
+      setPendingSessionId(storedSessionId);
+    }
+  }, []);
+
+  // Open the question review once questions are ready; stop tracking finished sessions
+  useEffect(() => {
+    if (!pendingSessionId) return;
+
+    if (progress?.stage === 'ready') {
+      localStorage.removeItem(PENDING_SESSION_KEY);
+      router.push(`/review/${pendingSessionId}`);
+    } else if (generationFailed) {
+      localStorage.removeItem(PENDING_SESSION_KEY);
+    }
+  }, [pendingSessionId, progress?.stage, generationFailed, router]);
 
-  // Validation
-  const isRoleTitleValid = roleTitle.trim().length >= 10;
-  const isJobDescriptionValid = jobDescription.trim().length >= 50;
-  const isFormValid = isRoleTitleValid && isJobDescriptionValid;
+  // Load the template catalog for the template and mixed modes
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch('/api/templates');
+        const result = await response.json();
+        if (!cancelled && response.ok && result.success) {
+          setTemplates(result.data.templates);
+        }
+      } catch (err) {
+        console.error('Failed to load templates:', err);
+      }
+    };
+
+    loadTemplates();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Validation - template sessions fall back to the template's role and description
+  const usesTemplate = mode !== 'job-description';
+  const usesJobDescription = mode !== 'template';
+  const isTemplateValid = !usesTemplate || Boolean(templateId);
+  const isRoleTitleValid = roleTitle.trim().length >= 10 || (mode === 'template' && !roleTitle.trim());
+  const isJobDescriptionValid = jobDescription.trim().length >= 50 || !usesJobDescription;
+  const length = Number(lengthValue);
+  const [minLength, maxLength] = lengthMode === 'questions' ? [3, 25] : [5, 60];
+  const isLengthValid =
+    lengthMode === 'default' || (Number.isInteger(length) && length >= minLength && length <= maxLength);
+  const weights = Object.fromEntries(
+    Object.entries(categoryWeights)
+      .filter(([, value]) => value !== '')
+      .map(([category, value]) => [category, Number(value)])
+  ) as Partial<Record<QuestionCategory, number>>;
+  const hasWeights = Object.keys(weights).length > 0;
+  const areWeightsValid = !hasWeights || Object.values(weights).some((weight) => weight > 0);
+  const isFormValid = isTemplateValid && isRoleTitleValid && isJobDescriptionValid && isLengthValid && areWeightsValid;
+
+  const payload: CreateSessionInput = {
+    roleTitle,
+    companyName: companyName.trim() || undefined,
+    jobDescription,
+    mode,
+    templateId: usesTemplate ? templateId : undefined,
+    questionCount: lengthMode === 'questions' ? length : undefined,
+    durationMinutes: lengthMode === 'duration' ? length : undefined,
+    categoryWeights: hasWeights ? weights : undefined,
+    includeTopics: parseTopics(includeTopics),
+    excludeTopics: parseTopics(excludeTopics),
+    repeatWeakQuestions: repeatWeakQuestions || undefined,
+    seniorityOverride: confirmedLevel ?? undefined,
+    language,
+    persona,
+    resumeText: usesJobDescription ? resumeText.trim() || undefined : undefined,
+  };
+
+  // Template sessions use the template's level, so there is nothing to confirm
+  const needsSeniorityConfirmation = usesJobDescription && !confirmedLevel;
+
+  /**
+   * Discard an inferred level once the inputs it was based on change
+   */
+  const resetSeniority = () => {
+    setSeniority(null);
+    setConfirmedLevel(null);
+  };
+
+  /**
+   * Extract an uploaded posting into the job description for review.
+   * Detected role and company only fill fields the user left empty.
+   */
+  const handlePostingUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting('posting');
+    setError(null);
+
+    try {
+      const posting = await uploadDocument<ExtractJobPostingResponse>('/api/job-postings', file);
+      setJobDescription(posting.jobDescription);
+      if (posting.roleTitle && !roleTitle.trim()) setRoleTitle(posting.roleTitle);
+      if (posting.companyName && !companyName.trim()) setCompanyName(posting.companyName);
+      setImportedPosting(posting);
+      resetSeniority();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const handleResumeUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting('resume');
+    setError(null);
+
+    try {
+      const resume = await uploadDocument<ExtractResumeResponse>('/api/resumes', file);
+      setResumeText(resume.resumeText);
+      setImportedResume(resume);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const inferSeniorityLevel = async () => {
+    setIsInferring(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/seniority', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roleTitle, jobDescription }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || 'Failed to detect the seniority level');
+      }
+
+      setSeniority(result.data.inference);
+      setConfirmedLevel(result.data.inference.level);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsInferring(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!isFormValid) return;
 
-    setIsLoading(true);
+    // First submit detects the level; the second one generates with the confirmed level
+    if (needsSeniorityConfirmation) {
+      await inferSeniorityLevel();
+      return;
+    }
+
+    setIsSubmitting(true);
     setError(null);
+    setPendingSessionId(null);
 
     try {
       if (onSubmit) {
-        await onSubmit({ roleTitle, companyName: companyName.trim() || undefined, jobDescription });
+        await onSubmit(payload);
       } else {
         // Default behavior: call API and redirect
         const response = await fetch('/api/sessions', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ roleTitle, companyName: companyName.trim() || undefined, jobDescription }),
+          body: JSON.stringify(payload),
         });
 
         if (!response.ok) {
@@ -46,23 +330,76 @@ export function SessionForm({ onSubmit }: SessionFormProps) {
 
         const result = await response.json();
         
-        // Handle ApiResponse wrapper: { success: true, data: { session, topics, questionCount } }
+        // Handle ApiResponse wrapper: { success: true, data: { session } }
         const sessionId = result.data?.session?.id ?? result.session?.id;
         if (!sessionId) {
           throw new Error('Invalid response: session ID not found');
         }
         
-        router.push(`/interview/${sessionId}`);
+        // Questions are generated in the background; track progress until ready
+        localStorage.setItem(PENDING_SESSION_KEY, sessionId);
+        setPendingSessionId(sessionId);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
-      setIsLoading(false);
+      setIsSubmitting(false);
     }
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Question Source */}
+      <fieldset className="space-y-2" disabled={isLoading}>
+        <legend className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <Library className="h-4 w-4" />
+          Question Source
+        </legend>
+        <div className="grid grid-cols-3 gap-2">
+          {SOURCE_MODE_OPTIONS.map((option) => (
+            <button
+              key={option.mode}
+              type="button"
+              onClick={() => {
+                setMode(option.mode);
+                resetSeniority();
+              }}
+              aria-pressed={mode === option.mode}
+              className={`rounded-lg border px-3 py-2 text-sm transition-colors ${
+                mode === option.mode
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {usesTemplate && (
+          <>
+            <select
+              id="templateId"
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+              className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 transition-colors"
+              aria-describedby="templateId-hint"
+            >
+              <option value="">Select a template...</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name} (v{template.version}, {template.questionCount} questions)
+                </option>
+              ))}
+            </select>
+            <p id="templateId-hint" className="text-xs text-gray-500">
+              {mode === 'template'
+                ? 'Uses only the template\'s curated questions.'
+                : 'Starts with the template\'s questions and adds AI questions for topics it does not cover.'}
+            </p>
+          </>
+        )}
+      </fieldset>
+
       {/* Role Title Input */}
       <div className="space-y-2">
         <label
@@ -71,20 +408,27 @@ export function SessionForm({ onSubmit }: SessionFormProps) {
         >
           <Briefcase className="h-4 w-4" />
           Role Title
-          <span className="text-red-500">*</span>
+          {mode === 'template' ? (
+            <span className="text-gray-400 text-xs font-normal">(optional)</span>
+          ) : (
+            <span className="text-red-500">*</span>
+          )}
         </label>
         <input
           id="roleTitle"
           type="text"
           value={roleTitle}
-          onChange={(e) => setRoleTitle(e.target.value)}
+          onChange={(e) => {
+            setRoleTitle(e.target.value);
+            resetSeniority();
+          }}
           placeholder="e.g., Senior FullStack .NET/Angular Developer"
           className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 transition-colors"
           disabled={isLoading}
           aria-describedby="roleTitle-hint"
         />
         <p id="roleTitle-hint" className="text-xs text-gray-500">
-          Include seniority level (Junior, Mid, Senior) for better question alignment.
+          The seniority level is detected from the title and job description; you can confirm or change it next.
           {roleTitle.length > 0 && (
             <span className={isRoleTitleValid ? 'text-green-600' : 'text-orange-500'}>
               {' '}({roleTitle.trim().length}/10 min characters)
@@ -118,20 +462,106 @@ export function SessionForm({ onSubmit }: SessionFormProps) {
         </p>
       </div>
 
-      {/* Job Description Input */}
+      {/* Interview Language */}
+      <div className="space-y-2">
+        <label
+          htmlFor="language"
+          className="flex items-center gap-2 text-sm font-medium text-gray-700"
+        >
+          <Languages className="h-4 w-4" />
+          Interview Language
+        </label>
+        <select
+          id="language"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value as InterviewLanguage)}
+          className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 transition-colors"
+          disabled={isLoading}
+          aria-describedby="language-hint"
+        >
+          {INTERVIEW_LANGUAGES.map((code) => (
+            <option key={code} value={code}>
+              {LANGUAGE_SETTINGS[code].label}
+            </option>
+          ))}
+        </select>
+        <p id="language-hint" className="text-xs text-gray-500">
+          Questions are asked, transcribed and evaluated in this language.
+        </p>
+      </div>
+
+      {/* Interviewer Persona */}
       <div className="space-y-2">
         <label
-          htmlFor="jobDescription"
+          htmlFor="persona"
           className="flex items-center gap-2 text-sm font-medium text-gray-700"
         >
-          <FileText className="h-4 w-4" />
-          Job Description
-          <span className="text-red-500">*</span>
+          <Mic className="h-4 w-4" />
+          Interviewer
         </label>
+        <select
+          id="persona"
+          value={persona}
+          onChange={(e) => setPersona(e.target.value as InterviewerPersona)}
+          className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 transition-colors"
+          disabled={isLoading}
+          aria-describedby="persona-hint"
+        >
+          {INTERVIEWER_PERSONAS.map((option) => (
+            <option key={option} value={option}>
+              {PERSONA_SETTINGS[option].label}
+            </option>
+          ))}
+        </select>
+        <p id="persona-hint" className="text-xs text-gray-500">
+          {PERSONA_SETTINGS[persona].description}. Sets the voice, speaking pace and tone of the spoken introduction and transitions.
+        </p>
+      </div>
+
+      {/* Job Description Input */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label
+            htmlFor="jobDescription"
+            className="flex items-center gap-2 text-sm font-medium text-gray-700"
+          >
+            <FileText className="h-4 w-4" />
+            Job Description
+            {usesJobDescription ? (
+              <span className="text-red-500">*</span>
+            ) : (
+              <span className="text-gray-400 text-xs font-normal">(optional)</span>
+            )}
+          </label>
+          <label
+            className={`flex items-center gap-1.5 text-xs font-medium text-blue-600 ${
+              isLoading ? 'cursor-not-allowed opacity-50' : 'cursor-pointer hover:text-blue-700'
+            }`}
+          >
+            {importing === 'posting' ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Upload className="h-3.5 w-3.5" />}
+            {importing === 'posting' ? 'Extracting...' : 'Upload PDF, DOCX, HTML or Markdown'}
+            <input
+              type="file"
+              accept=".pdf,.docx,.html,.htm,.md,.markdown"
+              onChange={handlePostingUpload}
+              className="sr-only"
+              disabled={isLoading}
+            />
+          </label>
+        </div>
+        {importedPosting && (
+          <p className="text-xs text-blue-700">
+            Extracted from {importedPosting.fileName}. Review and edit the text before generating.
+            {importedPosting.truncated && ' The posting was long, so the end was cut off.'}
+          </p>
+        )}
         <textarea
           id="jobDescription"
           value={jobDescription}
-          onChange={(e) => setJobDescription(e.target.value)}
+          onChange={(e) => {
+            setJobDescription(e.target.value);
+            resetSeniority();
+          }}
           placeholder="Paste the job description or key responsibilities here..."
           rows={8}
           className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 transition-colors resize-none"
@@ -140,7 +570,7 @@ export function SessionForm({ onSubmit }: SessionFormProps) {
         />
         <p id="jobDescription-hint" className="text-xs text-gray-500">
           The more detailed, the better the questions.
-          {jobDescription.length > 0 && (
+          {usesJobDescription && jobDescription.length > 0 && (
             <span className={isJobDescriptionValid ? 'text-green-600' : 'text-orange-500'}>
               {' '}({jobDescription.trim().length}/50 min characters)
             </span>
@@ -148,10 +578,213 @@ export function SessionForm({ onSubmit }: SessionFormProps) {
         </p>
       </div>
 
+      {/* Resume Input */}
+      {usesJobDescription && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label htmlFor="resumeText" className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <FileUser className="h-4 w-4" />
+              Your Resume
+              <span className="text-gray-400 text-xs font-normal">(optional)</span>
+            </label>
+            <label
+              className={`flex items-center gap-1.5 text-xs font-medium text-blue-600 ${
+                isLoading ? 'cursor-not-allowed opacity-50' : 'cursor-pointer hover:text-blue-700'
+              }`}
+            >
+              {importing === 'resume' ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Upload className="h-3.5 w-3.5" />}
+              {importing === 'resume' ? 'Extracting...' : 'Upload PDF or DOCX'}
+              <input
+                type="file"
+                accept=".pdf,.docx,.md,.markdown"
+                onChange={handleResumeUpload}
+                className="sr-only"
+                disabled={isLoading}
+              />
+            </label>
+          </div>
+          {importedResume && (
+            <p className="text-xs text-blue-700">
+              Extracted from {importedResume.fileName}. Review and edit the text before generating.
+              {importedResume.truncated && ' The resume was long, so the end was cut off.'}
+            </p>
+          )}
+          <textarea
+            id="resumeText"
+            value={resumeText}
+            onChange={(e) => setResumeText(e.target.value)}
+            placeholder="Paste your resume to get questions about your own projects and the skills it does not show..."
+            rows={5}
+            className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 transition-colors resize-none"
+            disabled={isLoading}
+            aria-describedby="resumeText-hint"
+          />
+          <p id="resumeText-hint" className="text-xs text-gray-500">
+            Questions are tagged as from the job description, from your resume, or covering a skill gap.
+          </p>
+        </div>
+      )}
+
+      {/* Seniority Confirmation */}
+      {seniority && usesJobDescription && (
+        <fieldset className="space-y-3 rounded-lg border border-blue-200 bg-blue-50 p-4" disabled={isLoading}>
+          <legend className="sr-only">Seniority level</legend>
+          <p className="text-sm font-medium text-blue-900">
+            Detected level: <span className="capitalize">{seniority.level}</span>
+            <span className="font-normal text-blue-700">
+              {' '}({Math.round(seniority.confidence * 100)}% confidence
+              {seniority.source === 'ai' && ', AI-assisted'})
+            </span>
+          </p>
+          <p className="text-xs text-blue-800">{seniority.rationale}</p>
+          <div className="grid grid-cols-3 gap-2 sm:grid-cols-5">
+            {SENIORITY_OPTIONS.map((option) => (
+              <button
+                key={option.level}
+                type="button"
+                onClick={() => setConfirmedLevel(option.level)}
+                aria-pressed={confirmedLevel === option.level}
+                className={`rounded-lg border px-3 py-2 text-sm transition-colors ${
+                  confirmedLevel === option.level
+                    ? 'border-blue-500 bg-white text-blue-700'
+                    : 'border-blue-200 text-gray-700 hover:bg-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-blue-800">Questions are generated for the selected level.</p>
+        </fieldset>
+      )}
+
+      {/* Advanced Options */}
+      <details className="rounded-lg border border-gray-200">
+        <summary className="flex cursor-pointer items-center gap-2 px-4 py-3 text-sm font-medium text-gray-700">
+          <SlidersHorizontal className="h-4 w-4" />
+          Advanced options
+        </summary>
+        <fieldset className="space-y-4 border-t border-gray-200 p-4" disabled={isLoading}>
+          {/* Interview Length */}
+          <div className="space-y-2">
+            <label htmlFor="lengthMode" className="text-sm font-medium text-gray-700">
+              Interview length
+            </label>
+            <div className="flex gap-2">
+              <select
+                id="lengthMode"
+                value={lengthMode}
+                onChange={(e) => setLengthMode(e.target.value as LengthMode)}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+              >
+                <option value="default">Default (10-15 questions)</option>
+                <option value="questions">Number of questions</option>
+                <option value="duration">Duration in minutes</option>
+              </select>
+              {lengthMode !== 'default' && (
+                <input
+                  type="number"
+                  aria-label={lengthMode === 'questions' ? 'Number of questions' : 'Duration in minutes'}
+                  value={lengthValue}
+                  onChange={(e) => setLengthValue(e.target.value)}
+                  min={minLength}
+                  max={maxLength}
+                  placeholder={`${minLength}-${maxLength}`}
+                  className="w-28 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Category Weights */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Category weights</p>
+            <div className="grid grid-cols-2 gap-2">
+              {CATEGORY_OPTIONS.map((option) => (
+                <label key={option.category} className="flex items-center justify-between gap-2 text-sm text-gray-600">
+                  {option.label}
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={categoryWeights[option.category] ?? ''}
+                    onChange={(e) =>
+                      setCategoryWeights((prev) => ({ ...prev, [option.category]: e.target.value }))
+                    }
+                    className="w-20 rounded-lg border border-gray-300 px-2 py-1 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              Relative weights, e.g. 3 technical and 1 behavioral. Categories left blank are not asked.
+            </p>
+          </div>
+
+          {/* Focus Topics */}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <label htmlFor="includeTopics" className="text-sm font-medium text-gray-700">
+                Include topics
+              </label>
+              <input
+                id="includeTopics"
+                type="text"
+                value={includeTopics}
+                onChange={(e) => setIncludeTopics(e.target.value)}
+                placeholder="e.g., GraphQL, Kubernetes"
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="excludeTopics" className="text-sm font-medium text-gray-700">
+                Exclude topics
+              </label>
+              <input
+                id="excludeTopics"
+                type="text"
+                value={excludeTopics}
+                onChange={(e) => setExcludeTopics(e.target.value)}
+                placeholder="e.g., Agile"
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+              />
+            </div>
+          </div>
+
+          {/* Question History */}
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={repeatWeakQuestions}
+              onChange={(e) => setRepeatWeakQuestions(e.target.checked)}
+              className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>
+              Re-ask questions I answered poorly before
+              <span className="block text-xs text-gray-500">
+                Questions from earlier sessions for similar roles are normally replaced with new ones.
+              </span>
+            </span>
+          </label>
+          {mode === 'template' && (
+            <p className="text-xs text-gray-500">
+              Template questions are used as-is, at the template&apos;s seniority level.
+            </p>
+          )}
+        </fieldset>
+      </details>
+
+      {/* Generation Progress */}
+      {isGenerating && (
+        <div className="rounded-lg bg-gray-50 border border-gray-200 p-4">
+          <GenerationProgress stage={progress?.stage ?? 'pending'} />
+        </div>
+      )}
+
       {/* Error Message */}
-      {error && (
+      {displayedError && (
         <div className="rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700">
-          {error}
+          {displayedError}
         </div>
       )}
 
@@ -161,11 +794,21 @@ export function SessionForm({ onSubmit }: SessionFormProps) {
         disabled={!isFormValid || isLoading}
         className="w-full flex items-center justify-center gap-2 rounded-lg bg-blue-600 px-6 py-3 text-white font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
       >
-        {isLoading ? (
+        {isInferring ? (
+          <>
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Detecting Seniority...
+          </>
+        ) : isLoading ? (
           <>
             <Loader2 className="h-5 w-5 animate-spin" />
             Generating Questions...
           </>
+        ) : needsSeniorityConfirmation ? (
+          <>
+            <UserCheck className="h-5 w-5" />
+            Detect Seniority Level
+          </>
         ) : (
           <>
             <Sparkles className="h-5 w-5" />
@@ -178,7 +821,7 @@ export function SessionForm({ onSubmit }: SessionFormProps) {
       <div className="rounded-lg bg-blue-50 border border-blue-200 p-4">
         <h3 className="font-medium text-blue-900 mb-2">What happens next?</h3>
         <ul className="text-sm text-blue-800 space-y-1">
-          <li>✨ AI generates up to 15 tailored interview questions</li>
+          <li>✨ AI generates tailored interview questions (10-15 unless you set a length)</li>
           <li>🎤 Questions are read aloud using text-to-speech</li>
           <li>🎙️ Record your spoken responses</li>
           <li>📊 Get detailed feedback and scoring</li>
@@ -10,3 +10,9 @@ export { PermissionsCheck } from './PermissionsCheck';
 export type { PermissionStatus } from './PermissionsCheck';
 export { ScoreCard, OverallScore, PerformanceBadge } from './ScoreCard';
 export type { ScoreCardProps, OverallScoreProps, PerformanceBadgeProps } from './ScoreCard';
+export { EvaluationHistory } from './EvaluationHistory';
+export type { EvaluationHistoryProps } from './EvaluationHistory';
+export { AnswerPlayback } from './AnswerPlayback';
+export type { AnswerPlaybackProps } from './AnswerPlayback';
+export { DeliveryMetrics } from './DeliveryMetrics';
+export type { DeliveryMetricsProps } from './DeliveryMetrics';
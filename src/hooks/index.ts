@@ -29,7 +29,24 @@ export type {
 // Speech recognition (STT)
 export { useSpeechRecognition } from './useSpeechRecognition';
 export type {
+  RecognitionResult,
   RecognitionStatus,
   SpeechRecognitionState,
   UseSpeechRecognitionReturn,
 } from './useSpeechRecognition';
+
+// Session generation progress
+export { useSessionProgress } from './useSessionProgress';
+export type {
+  SessionProgressState,
+  UseSessionProgressOptions,
+} from './useSessionProgress';
+
+// Streaming evaluation results
+export { useEvaluationStream } from './useEvaluationStream';
+export type {
+  EvaluationStreamStatus,
+  EvaluationStreamState,
+  UseEvaluationStreamOptions,
+  UseEvaluationStreamReturn,
+} from './useEvaluationStream';
@@ -24,7 +24,8 @@ export interface AudioRecorderState {
 
 export interface UseAudioRecorderReturn {
   state: AudioRecorderState;
-  startRecording: () => Promise<void>;
+  /** Resolves with the `performance.now()` time recording started, or null if it did not */
+  startRecording: () => Promise<number | null>;
   stopRecording: () => Promise<Blob | null>;
   pauseRecording: () => void;
   resumeRecording: () => void;
@@ -95,13 +96,13 @@ export function useAudioRecorder(): UseAudioRecorderReturn {
   }, [state.status]);
 
   // Start recording
-  const startRecording = useCallback(async () => {
+  const startRecording = useCallback(async (): Promise<number | null> => {
     if (!isSupported) {
       setState((prev) => ({
         ...prev,
         error: 'Audio recording is not supported in this browser',
       }));
-      return;
+      return null;
     }
 
     try {
@@ -160,6 +161,7 @@ export function useAudioRecorder(): UseAudioRecorderReturn {
 
       // Start recording
       mediaRecorder.start(100); // Collect data every 100ms
+      const startedAt = performance.now();
 
       // Start duration timer
       durationIntervalRef.current = setInterval(() => {
@@ -168,6 +170,7 @@ export function useAudioRecorder(): UseAudioRecorderReturn {
 
       // Start audio level updates
       updateAudioLevel();
+      return startedAt;
     } catch (error) {
       console.error('Failed to start recording:', error);
       setState((prev) => ({
@@ -175,6 +178,7 @@ export function useAudioRecorder(): UseAudioRecorderReturn {
         status: 'idle',
         error: error instanceof Error ? error.message : 'Failed to access microphone',
       }));
+      return null;
     }
   }, [isSupported, getMimeType, updateAudioLevel]);
 
@@ -0,0 +1,162 @@
+// =========================================================================
+// AI Tech Interview - Evaluation Stream Hook
+// Subscribes to GET /api/evaluate/stream and collects evaluations as they
+// are scored, so results can render incrementally
+// =========================================================================
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ResponseEvaluation } from '@/types/interview';
+import type {
+  BatchEvaluationResponse,
+  EvaluationFailure,
+  EvaluationRunSummary,
+  EvaluationStreamEvent,
+} from '@/types/api';
+
+// =========================================================================
+// Types
+// =========================================================================
+
+export type EvaluationStreamStatus = 'idle' | 'streaming' | 'complete' | 'error';
+
+export interface EvaluationStreamState {
+  status: EvaluationStreamStatus;
+  /** Evaluations received so far, keyed by question ID */
+  evaluations: Record<string, ResponseEvaluation>;
+  /** Per-question failures, keyed by question ID */
+  failures: Record<string, EvaluationFailure>;
+  summary: EvaluationRunSummary | null;
+  error: string | null;
+  isRetrying: boolean;
+}
+
+export interface UseEvaluationStreamReturn extends EvaluationStreamState {
+  /** Re-evaluate exactly the responses that failed */
+  retryFailed: () => Promise<void>;
+}
+
+export interface UseEvaluationStreamOptions {
+  /** Set to false to skip streaming (e.g. every response is already evaluated) */
+  enabled?: boolean;
+}
+
+type EventData<T extends EvaluationStreamEvent['type']> = Extract<EvaluationStreamEvent, { type: T }>['data'];
+
+// =========================================================================
+// Hook Implementation
+// =========================================================================
+
+/**
+ * Open an EventSource for the session's evaluation stream.
+ * The connection is closed once the `complete` event arrives.
+ */
+export function useEvaluationStream(
+  sessionId: string,
+  { enabled = true }: UseEvaluationStreamOptions = {}
+): UseEvaluationStreamReturn {
+  const [state, setState] = useState<EvaluationStreamState>(() => ({
+    status: enabled ? 'streaming' : 'idle',
+    evaluations: {},
+    failures: {},
+    summary: null,
+    error: null,
+    isRetrying: false,
+  }));
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const source = new EventSource(`/api/evaluate/stream?sessionId=${encodeURIComponent(sessionId)}`);
+
+    const parse = <T extends EvaluationStreamEvent['type']>(event: Event) =>
+      JSON.parse((event as MessageEvent<string>).data) as EventData<T>;
+
+    source.addEventListener('evaluation', (event) => {
+      const { questionId, evaluation } = parse<'evaluation'>(event);
+      setState((prev) => ({
+        ...prev,
+        evaluations: { ...prev.evaluations, [questionId]: evaluation },
+      }));
+    });
+
+    source.addEventListener('evaluation-failed', (event) => {
+      const failure = parse<'evaluation-failed'>(event);
+      setState((prev) => ({
+        ...prev,
+        failures: { ...prev.failures, [failure.questionId]: failure },
+      }));
+    });
+
+    source.addEventListener('complete', (event) => {
+      const summary = parse<'complete'>(event);
+      source.close();
+      setState((prev) => ({ ...prev, status: 'complete', summary }));
+    });
+
+    source.addEventListener('stream-error', (event) => {
+      const { message } = parse<'stream-error'>(event);
+      source.close();
+      setState((prev) => ({ ...prev, status: 'error', error: message }));
+    });
+
+    // Connection-level failure (network error, 4xx/5xx before streaming).
+    // Close instead of letting EventSource reconnect and re-run the batch.
+    source.onerror = () => {
+      source.close();
+      setState((prev) =>
+        prev.status === 'streaming'
+          ? { ...prev, status: 'error', error: 'Lost connection while evaluating responses' }
+          : prev
+      );
+    };
+
+    return () => {
+      source.close();
+    };
+  }, [sessionId, enabled]);
+
+  // Stable key so the callback only changes when the failed set changes
+  const failedKey = Object.values(state.failures).map((failure) => failure.responseId).join(',');
+
+  const retryFailed = useCallback(async () => {
+    if (!failedKey) return;
+
+    setState((prev) => ({ ...prev, isRetrying: true, error: null }));
+
+    try {
+      const response = await fetch('/api/evaluate/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, responseIds: failedKey.split(',') }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || 'Failed to retry evaluations');
+      }
+
+      const { evaluations, failures, ...summary } = result.data as BatchEvaluationResponse;
+      setState((prev) => ({
+        ...prev,
+        status: 'complete',
+        evaluations: {
+          ...prev.evaluations,
+          ...Object.fromEntries(evaluations.map((e) => [e.questionId, e.evaluation])),
+        },
+        failures: Object.fromEntries(failures.map((f) => [f.questionId, f])),
+        summary,
+        isRetrying: false,
+      }));
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        isRetrying: false,
+        error: error instanceof Error ? error.message : 'Failed to retry evaluations',
+      }));
+    }
+  }, [sessionId, failedKey]);
+
+  return { ...state, retryFailed };
+}
@@ -0,0 +1,94 @@
+// =========================================================================
+// AI Tech Interview - Session Progress Hook
+// Polls the background question generation job for a session
+// =========================================================================
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { SessionProgressResponse } from '@/types/api';
+
+// =========================================================================
+// Types
+// =========================================================================
+
+export interface SessionProgressState {
+  progress: SessionProgressResponse | null;
+  error: string | null;
+  isPolling: boolean;
+}
+
+export interface UseSessionProgressOptions {
+  /** Delay between polls in milliseconds (default: 1500) */
+  intervalMs?: number;
+}
+
+// =========================================================================
+// Hook Implementation
+// =========================================================================
+
+/**
+ * Poll GET /api/sessions/[id]/progress until generation is ready or failed.
+ * Pass `null` to stop polling.
+ */
+export function useSessionProgress(
+  sessionId: string | null,
+  { intervalMs = 1500 }: UseSessionProgressOptions = {}
+): SessionProgressState {
+  const [state, setState] = useState<SessionProgressState & { sessionId: string | null }>({
+    sessionId: null,
+    progress: null,
+    error: null,
+    isPolling: false,
+  });
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}/progress`, { cache: 'no-store' });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error?.message || 'Failed to get session progress');
+        }
+
+        if (cancelled) return;
+
+        const progress = result.data as SessionProgressResponse;
+        const isDone = progress.stage === 'ready' || progress.stage === 'failed';
+        setState({ sessionId, progress, error: null, isPolling: !isDone });
+
+        if (!isDone) {
+          timeout = setTimeout(poll, intervalMs);
+        }
+      } catch (error) {
+        if (cancelled) return;
+        setState({
+          sessionId,
+          progress: null,
+          error: error instanceof Error ? error.message : 'Failed to get session progress',
+          isPolling: false,
+        });
+      }
+    };
+
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [sessionId, intervalMs]);
+
+  // Ignore results that belong to a previous session ID
+  if (!sessionId || state.sessionId !== sessionId) {
+    return { progress: null, error: null, isPolling: Boolean(sessionId) };
+  }
+
+  return { progress: state.progress, error: state.error, isPolling: state.isPolling };
+}
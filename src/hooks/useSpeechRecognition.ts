@@ -7,6 +7,8 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import type * as SpeechSDK from 'microsoft-cognitiveservices-speech-sdk';
+import { DEFAULT_LANGUAGE } from '@/lib/languages';
+import type { InterviewLanguage, WordTiming } from '@/types/interview';
 
 // =========================================================================
 // Types
@@ -21,10 +23,22 @@ export interface SpeechRecognitionState {
   error: string | null;
 }
 
+/**
+ * Final transcript of one listening session and the timing of each word
+ */
+export interface RecognitionResult {
+  transcript: string;
+  wordTimings: WordTiming[];
+}
+
 export interface UseSpeechRecognitionReturn {
   state: SpeechRecognitionState;
-  startListening: () => Promise<void>;
-  stopListening: () => Promise<string>;
+  /**
+   * Resolves with the `performance.now()` time word offsets count from, or
+   * null if listening did not start
+   */
+  startListening: () => Promise<number | null>;
+  stopListening: () => Promise<RecognitionResult>;
   resetTranscript: () => void;
   isSupported: boolean;
 }
@@ -63,11 +77,54 @@ async function getSpeechToken(): Promise<SpeechToken> {
   return cachedToken!;
 }
 
+// =========================================================================
+// Word Timings
+// =========================================================================
+
+/**
+ * Detailed recognition result JSON (offsets and durations in 100ns ticks)
+ */
+interface DetailedResult {
+  DisplayText?: string;
+  NBest?: Array<{
+    Display?: string;
+    Words?: Array<{ Word: string; Offset: number; Duration: number }>;
+  }>;
+}
+
+const TICKS_PER_MS = 10_000;
+
+/**
+ * Word timings of a recognized phrase. Timed words are lexical ("four
+ * hundred"); when the display text has the same number of words, its
+ * punctuated form ("400.") is used instead so the words read like the
+ * transcript.
+ */
+function toWordTimings(json: string | undefined): WordTiming[] {
+  if (!json) return [];
+
+  try {
+    const result: DetailedResult = JSON.parse(json);
+    const best = result.NBest?.[0];
+    const words = best?.Words ?? [];
+    const display = (best?.Display ?? result.DisplayText ?? '').split(/\s+/).filter(Boolean);
+    const useDisplay = display.length === words.length;
+
+    return words.map((word, i) => ({
+      word: useDisplay ? display[i] : word.Word,
+      offsetMs: Math.round(word.Offset / TICKS_PER_MS),
+      durationMs: Math.round(word.Duration / TICKS_PER_MS),
+    }));
+  } catch {
+    return [];
+  }
+}
+
 // =========================================================================
 // Hook Implementation
 // =========================================================================
 
-export function useSpeechRecognition(): UseSpeechRecognitionReturn {
+export function useSpeechRecognition(language: InterviewLanguage = DEFAULT_LANGUAGE): UseSpeechRecognitionReturn {
   const [state, setState] = useState<SpeechRecognitionState>({
     status: 'idle',
     transcript: '',
@@ -78,6 +135,7 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
   const recognizerRef = useRef<SpeechSDK.SpeechRecognizer | null>(null);
   const sdkRef = useRef<typeof SpeechSDK | null>(null);
   const transcriptRef = useRef<string>('');
+  const wordTimingsRef = useRef<WordTiming[]>([]);
 
   // Check browser support
   const isSupported = typeof window !== 'undefined' && 
@@ -107,8 +165,10 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
       );
 
       // Configure recognition
-      speechConfig.speechRecognitionLanguage = 'en-US';
+      speechConfig.speechRecognitionLanguage = language;
       speechConfig.enableDictation();
+      speechConfig.outputFormat = sdk.OutputFormat.Detailed;
+      speechConfig.requestWordLevelTimestamps();
 
       // Create audio config from default microphone
       const audioConfig = sdk.AudioConfig.fromDefaultMicrophoneInput();
@@ -136,6 +196,9 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
           const text = event.result.text;
           if (text) {
             transcriptRef.current += (transcriptRef.current ? ' ' : '') + text;
+            wordTimingsRef.current.push(
+              ...toWordTimings(event.result.properties?.getProperty(sdk.PropertyId.SpeechServiceResponse_JsonResult))
+            );
             setState((prev) => ({
               ...prev,
               transcript: transcriptRef.current,
@@ -173,17 +236,17 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
       console.error('Failed to initialize speech recognizer:', error);
       throw error;
     }
-  }, [loadSdk]);
+  }, [loadSdk, language]);
 
   // Start listening
-  const startListening = useCallback(async () => {
+  const startListening = useCallback(async (): Promise<number | null> => {
     if (!isSupported) {
       setState((prev) => ({
         ...prev,
         status: 'error',
         error: 'Speech recognition is not supported in this browser',
       }));
-      return;
+      return null;
     }
 
     try {
@@ -195,21 +258,25 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
 
       // Reset transcript
       transcriptRef.current = '';
+      wordTimingsRef.current = [];
       setState((prev) => ({
         ...prev,
         transcript: '',
         interimTranscript: '',
       }));
 
-      // Initialize or reuse recognizer
-      let recognizer = recognizerRef.current;
-      if (!recognizer) {
-        recognizer = await initializeRecognizer();
-      }
+      // A fresh recognizer per answer keeps word offsets relative to the
+      // start of this recording
+      recognizerRef.current?.close();
+      recognizerRef.current = null;
+      const recognizer = await initializeRecognizer();
+
+      // The microphone is opened, and offsets start counting, from here
+      const startedAt = performance.now();
 
       // Start continuous recognition
       await new Promise<void>((resolve, reject) => {
-        recognizer!.startContinuousRecognitionAsync(
+        recognizer.startContinuousRecognitionAsync(
           () => {
             setState((prev) => ({ ...prev, status: 'listening' }));
             resolve();
@@ -225,6 +292,7 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
           }
         );
       });
+      return startedAt;
     } catch (error) {
       console.error('Failed to start listening:', error);
       setState((prev) => ({
@@ -232,14 +300,17 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
         status: 'error',
         error: error instanceof Error ? error.message : 'Failed to start listening',
       }));
+      return null;
     }
   }, [isSupported, initializeRecognizer]);
 
   // Stop listening
-  const stopListening = useCallback(async (): Promise<string> => {
+  const stopListening = useCallback(async (): Promise<RecognitionResult> => {
+    const getResult = () => ({ transcript: transcriptRef.current, wordTimings: wordTimingsRef.current });
+
     return new Promise((resolve) => {
       if (!recognizerRef.current || state.status !== 'listening') {
-        resolve(transcriptRef.current);
+        resolve(getResult());
         return;
       }
 
@@ -252,7 +323,7 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
             status: 'idle',
             interimTranscript: '',
           }));
-          resolve(transcriptRef.current);
+          resolve(getResult());
         },
         (error) => {
           console.error('Failed to stop recognition:', error);
@@ -261,7 +332,7 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
             status: 'idle',
             interimTranscript: '',
           }));
-          resolve(transcriptRef.current);
+          resolve(getResult());
         }
       );
     });
@@ -270,6 +341,7 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
   // Reset transcript
   const resetTranscript = useCallback(() => {
     transcriptRef.current = '';
+    wordTimingsRef.current = [];
     setState((prev) => ({
       ...prev,
       transcript: '',
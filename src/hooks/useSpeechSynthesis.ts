@@ -1,12 +1,16 @@
 // =========================================================================
 // AI Tech Interview - Speech Synthesis Hook
-// Text-to-speech using Azure Cognitive Services Speech SDK
+// Text-to-speech using Azure Cognitive Services Speech SDK, spoken as SSML
+// in the interviewer persona's voice
 // =========================================================================
 
 'use client';
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import type * as SpeechSDK from 'microsoft-cognitiveservices-speech-sdk';
+import { DEFAULT_LANGUAGE } from '@/lib/languages';
+import { buildSsml, DEFAULT_PERSONA } from '@/lib/personas';
+import type { InterviewerPersona, InterviewLanguage } from '@/types/interview';
 
 // =========================================================================
 // Types
@@ -67,7 +71,10 @@ async function getSpeechToken(): Promise<SpeechToken> {
 // Hook Implementation
 // =========================================================================
 
-export function useSpeechSynthesis(): UseSpeechSynthesisReturn {
+export function useSpeechSynthesis(
+  language: InterviewLanguage = DEFAULT_LANGUAGE,
+  persona: InterviewerPersona = DEFAULT_PERSONA
+): UseSpeechSynthesisReturn {
   const [state, setState] = useState<SpeechSynthesisState>({
     status: 'idle',
     error: null,
@@ -103,8 +110,7 @@ export function useSpeechSynthesis(): UseSpeechSynthesisReturn {
         tokenData.region
       );
 
-      // Configure voice
-      speechConfig.speechSynthesisVoiceName = 'en-US-AvaMultilingualNeural';
+      // The voice is chosen per utterance in the SSML
       speechConfig.speechSynthesisOutputFormat =
         sdk.SpeechSynthesisOutputFormat.Audio16Khz32KBitRateMonoMp3;
 
@@ -152,10 +158,10 @@ export function useSpeechSynthesis(): UseSpeechSynthesisReturn {
 
         setState((prev) => ({ ...prev, status: 'speaking' }));
 
-        // Speak the text
+        // Speak the text in the persona's voice, rate and style
         await new Promise<void>((resolve, reject) => {
-          synthesizer!.speakTextAsync(
-            text,
+          synthesizer!.speakSsmlAsync(
+            buildSsml(text, persona, language),
             (result: SpeechSDK.SpeechSynthesisResult) => {
               if (result.reason === sdkRef.current!.ResultReason.SynthesizingAudioCompleted) {
                 setState((prev) => ({ ...prev, status: 'idle', currentText: null }));
@@ -190,7 +196,7 @@ export function useSpeechSynthesis(): UseSpeechSynthesisReturn {
         }));
       }
     },
-    [isSupported, initializeSynthesizer]
+    [isSupported, initializeSynthesizer, persona, language]
   );
 
   // Stop speaking
@@ -0,0 +1,26 @@
+// =========================================================================
+// AI Tech Interview - Azure OpenAI Provider
+// =========================================================================
+
+import { AzureOpenAI } from 'openai';
+import { getEnvVar } from './config';
+import { createJSONCompletion } from './openai-compatible';
+import type { AIProvider } from './types';
+
+/**
+ * Create a provider backed by an Azure OpenAI deployment
+ */
+export function createAzureOpenAIProvider(): AIProvider {
+  const client = new AzureOpenAI({
+    apiKey: getEnvVar('AZURE_OPENAI_API_KEY'),
+    endpoint: getEnvVar('AZURE_OPENAI_ENDPOINT'),
+    apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+  });
+  const deployment = getEnvVar('AZURE_OPENAI_DEPLOYMENT');
+
+  return {
+    name: 'azure',
+    model: deployment,
+    completeJSON: (request) => createJSONCompletion(client, deployment, request),
+  };
+}
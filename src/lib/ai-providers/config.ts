@@ -0,0 +1,55 @@
+// =========================================================================
+// AI Tech Interview - AI Provider Configuration
+// =========================================================================
+
+import type { AIProviderName } from './types';
+
+const PROVIDER_NAMES: AIProviderName[] = ['azure', 'openai', 'fixture'];
+
+const AZURE_OPENAI_VARS = [
+  'AZURE_OPENAI_API_KEY',
+  'AZURE_OPENAI_ENDPOINT',
+  'AZURE_OPENAI_DEPLOYMENT',
+];
+
+/**
+ * Read a required environment variable
+ */
+export function getEnvVar(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Resolve the configured provider from AI_PROVIDER.
+ *
+ * When AI_PROVIDER is not set, Azure OpenAI is used if it is configured;
+ * otherwise the app falls back to the offline fixture provider so sessions
+ * can still be created without any AI credentials.
+ */
+export function getConfiguredProviderName(): AIProviderName {
+  const configured = process.env.AI_PROVIDER?.trim().toLowerCase();
+
+  if (!configured) {
+    const missing = AZURE_OPENAI_VARS.filter((name) => !process.env[name]);
+    if (missing.length > 0) {
+      console.warn(
+        `AI_PROVIDER is not set and Azure OpenAI is not configured (missing: ${missing.join(', ')}). ` +
+          'Using the offline fixture provider.'
+      );
+      return 'fixture';
+    }
+    return 'azure';
+  }
+
+  if (!PROVIDER_NAMES.includes(configured as AIProviderName)) {
+    throw new Error(
+      `Invalid AI_PROVIDER "${configured}". Expected one of: ${PROVIDER_NAMES.join(', ')}`
+    );
+  }
+
+  return configured as AIProviderName;
+}
@@ -0,0 +1,238 @@
+// =========================================================================
+// AI Tech Interview - Fixture Templates
+// Seed data used by the fixture provider to build reproducible output
+// =========================================================================
+
+import type { ExtractedTopic } from '@/types/api';
+import type { QuestionCategory, QuestionDifficulty, SeniorityLevel } from '@/types/interview';
+
+/**
+ * Topic template matched against the role title and job description
+ */
+export interface TopicTemplate extends ExtractedTopic {
+  /**
+   * Lowercase terms that activate this topic, matched as whole words so
+   * "java" skips "javascript" and "react" skips "reactive"
+   */
+  triggers: string[];
+}
+
+/**
+ * Technology topics detected from keywords
+ */
+export const TECHNOLOGY_TOPICS: TopicTemplate[] = [
+  {
+    name: 'React & Frontend',
+    description: 'Component design, state management and rendering performance',
+    priority: 1,
+    category: 'technical',
+    keywords: ['components', 'hooks', 'state management'],
+    triggers: ['react', 'reactjs', 'next.js', 'nextjs', 'frontend', 'front-end'],
+  },
+  {
+    name: 'Angular',
+    description: 'Modules, dependency injection, RxJS and change detection',
+    priority: 1,
+    category: 'technical',
+    keywords: ['rxjs', 'dependency injection', 'change detection'],
+    triggers: ['angular'],
+  },
+  {
+    name: 'Node.js Backend',
+    description: 'Event loop, asynchronous I/O and API design in Node.js',
+    priority: 1,
+    category: 'technical',
+    keywords: ['event loop', 'async', 'rest api'],
+    triggers: ['node', 'nodejs', 'express', 'nestjs', 'javascript', 'typescript'],
+  },
+  {
+    name: '.NET & C#',
+    description: 'ASP.NET Core, async/await and the .NET runtime',
+    priority: 1,
+    category: 'technical',
+    keywords: ['asp.net core', 'async/await', 'entity framework'],
+    triggers: ['.net', 'c#', 'dotnet', 'asp.net'],
+  },
+  {
+    name: 'Python Services',
+    description: 'Idiomatic Python, packaging and service frameworks',
+    priority: 1,
+    category: 'technical',
+    keywords: ['django', 'fastapi', 'typing'],
+    triggers: ['python', 'django', 'fastapi', 'flask'],
+  },
+  {
+    name: 'Java & JVM',
+    description: 'Spring ecosystem, concurrency and JVM tuning',
+    priority: 1,
+    category: 'technical',
+    keywords: ['spring boot', 'concurrency', 'garbage collection'],
+    triggers: ['java', 'spring', 'kotlin', 'jvm'],
+  },
+  {
+    name: 'Databases & SQL',
+    description: 'Data modeling, indexing and query optimization',
+    priority: 2,
+    category: 'technical',
+    keywords: ['indexing', 'transactions', 'normalization'],
+    triggers: ['sql', 'postgres', 'postgresql', 'mysql', 'database', 'databases', 'mongodb'],
+  },
+  {
+    name: 'Cloud Infrastructure',
+    description: 'Deploying and operating services on a public cloud',
+    priority: 2,
+    category: 'technical',
+    keywords: ['managed services', 'networking', 'cost'],
+    triggers: ['azure', 'aws', 'gcp', 'cloud'],
+  },
+  {
+    name: 'Containers & CI/CD',
+    description: 'Containerization, orchestration and delivery pipelines',
+    priority: 2,
+    category: 'methodology',
+    keywords: ['docker', 'kubernetes', 'pipelines'],
+    triggers: ['docker', 'kubernetes', 'k8s', 'ci/cd', 'devops'],
+  },
+];
+
+/**
+ * Generic topics used to pad the topic list when few keywords match
+ */
+export const GENERIC_TOPICS: TopicTemplate[] = [
+  {
+    name: 'System Design',
+    description: 'Designing reliable, scalable services and their trade-offs',
+    priority: 1,
+    category: 'system-design',
+    keywords: ['scalability', 'trade-offs', 'availability'],
+    triggers: [],
+  },
+  {
+    name: 'Testing Practices',
+    description: 'Automated testing strategy and code quality',
+    priority: 2,
+    category: 'methodology',
+    keywords: ['unit tests', 'integration tests', 'coverage'],
+    triggers: [],
+  },
+  {
+    name: 'Debugging & Troubleshooting',
+    description: 'Diagnosing production issues methodically',
+    priority: 2,
+    category: 'technical',
+    keywords: ['logging', 'root cause', 'monitoring'],
+    triggers: [],
+  },
+  {
+    name: 'Team Collaboration',
+    description: 'Working with peers, reviews and stakeholder communication',
+    priority: 3,
+    category: 'soft-skills',
+    keywords: ['communication', 'code review', 'feedback'],
+    triggers: [],
+  },
+];
+
+/**
+ * Question templates per category. `{topic}` and `{role}` are replaced.
+ */
+export const QUESTION_TEMPLATES: Record<QuestionCategory, string[]> = {
+  technical: [
+    'Explain the core concepts of {topic} you rely on most as a {role}.',
+    'What best practices do you follow when working with {topic}, and why?',
+    'Describe a common pitfall in {topic} and how you avoid it.',
+  ],
+  'system-design': [
+    'Design a service for a {role} team where {topic} is central. What components would you choose?',
+    'How would you scale a system that depends heavily on {topic}? Discuss the trade-offs.',
+  ],
+  behavioral: [
+    'Tell me about a time you had to learn {topic} quickly to deliver a project.',
+    'Describe a disagreement with a teammate about {topic} and how you resolved it.',
+  ],
+  'problem-solving': [
+    'A production issue is traced to {topic}. Walk me through how you would debug it.',
+    'How would you optimize a slow workflow involving {topic}?',
+  ],
+};
+
+/**
+ * Question templates for topics cross-referenced with a resume, used
+ * instead of the category templates
+ */
+export const RESUME_QUESTION_TEMPLATES: Record<'resume' | 'gap', string[]> = {
+  resume: [
+    'Your resume mentions work with {topic}. Walk me through that project and the key decisions you made.',
+    'Looking back at the {topic} work on your resume, what would you do differently today and why?',
+  ],
+  gap: [
+    'This {role} role relies on {topic}. How would you apply your existing experience to it?',
+    'Explain the fundamentals of {topic} and how you would become productive with it in your first weeks.',
+  ],
+};
+
+/**
+ * Preferred question category for each topic category
+ */
+export const TOPIC_CATEGORY_TO_QUESTION: Record<ExtractedTopic['category'], QuestionCategory[]> = {
+  technical: ['technical', 'problem-solving'],
+  'system-design': ['system-design', 'technical'],
+  domain: ['technical', 'behavioral'],
+  'soft-skills': ['behavioral', 'behavioral'],
+  methodology: ['technical', 'problem-solving'],
+};
+
+/**
+ * Share of questions at each difficulty, per seniority level
+ */
+export const DIFFICULTY_MIX: Record<SeniorityLevel, Record<QuestionDifficulty, number>> = {
+  junior: { junior: 0.8, mid: 0.2, senior: 0, staff: 0, principal: 0 },
+  mid: { junior: 0.2, mid: 0.6, senior: 0.2, staff: 0, principal: 0 },
+  senior: { junior: 0, mid: 0.3, senior: 0.7, staff: 0, principal: 0 },
+  staff: { junior: 0, mid: 0, senior: 0.3, staff: 0.7, principal: 0 },
+  principal: { junior: 0, mid: 0, senior: 0.2, staff: 0.3, principal: 0.5 },
+};
+
+/**
+ * Feedback snippets chosen from transcript features
+ */
+export const FEEDBACK_TEMPLATES = {
+  strengths: {
+    coverage: 'Covered the key concepts the question was looking for',
+    detail: 'Gave a detailed answer with enough context to follow the reasoning',
+    fluent: 'Spoke fluently with few filler words',
+    concise: 'Kept the answer focused and concise',
+    attempt: 'Engaged with the question and attempted an answer',
+  },
+  improvements: {
+    coverage: 'Address more of the expected topics: {missing}',
+    detail: 'Expand the answer with a concrete example from your experience',
+    fluent: 'Reduce filler words such as "um" and "like" to sound more confident',
+    structure: 'Organize the answer as context, approach and result',
+    tradeoffs: 'Discuss the trade-offs of the approach you describe',
+  },
+  suggestions: [
+    'Before answering, take a moment to outline two or three key points.',
+    'Close every answer with the outcome and what you would do differently.',
+    'Name specific tools or patterns to make the answer more concrete.',
+  ],
+} as const;
+
+/**
+ * Follow-up questions that probe an expected topic the answer skipped
+ */
+export const FOLLOW_UP_TEMPLATES = [
+  'You did not mention {topic}. How would it change the approach you just described?',
+  'Can you go deeper on {topic}? Walk me through a concrete example from your experience.',
+  'Where does {topic} fit into your answer, and what trade-offs would you consider?',
+];
+
+/**
+ * Reference answer and red flags for generated questions.
+ * `{topic}` and `{points}` are replaced.
+ */
+export const RUBRIC_TEMPLATES = {
+  referenceAnswer:
+    'A strong answer explains {points} in the context of {topic}, grounds it in a concrete example from real work and names the main trade-off of the chosen approach.',
+  redFlags: ['no trade-offs', 'never tested'],
+};
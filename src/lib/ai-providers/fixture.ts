@@ -0,0 +1,467 @@
+// =========================================================================
+// AI Tech Interview - Fixture Provider
+// Deterministic offline responses for demos, UI work and end-to-end tests.
+// The same inputs always produce the same topics, questions and scores.
+// =========================================================================
+
+import { QUESTION_TIME_LIMITS } from '@/types/interview';
+import type { EvaluationScores, QuestionCategory, QuestionDifficulty, SpeechMetrics } from '@/types/interview';
+import type {
+  AIEvaluationResponse,
+  AIFollowUpResponse,
+  AIQuestionGenerationResponse,
+  AISeniorityResponse,
+  AITopicExtractionResponse,
+  ExtractedTopic,
+  GeneratedQuestionRaw,
+} from '@/types/api';
+import {
+  DIFFICULTY_MIX,
+  FEEDBACK_TEMPLATES,
+  FOLLOW_UP_TEMPLATES,
+  GENERIC_TOPICS,
+  QUESTION_TEMPLATES,
+  RESUME_QUESTION_TEMPLATES,
+  RUBRIC_TEMPLATES,
+  TECHNOLOGY_TOPICS,
+  TOPIC_CATEGORY_TO_QUESTION,
+  type TopicTemplate,
+} from './fixture-templates';
+import type { AIProvider, AITaskContext } from './types';
+import { computeSpeechMetrics, LONG_PAUSE_MS, TYPICAL_PACE } from '../speech-metrics';
+
+type Context<T extends AITaskContext['task']> = Extract<AITaskContext, { task: T }>;
+
+// =========================================================================
+// Seeded Randomness
+// =========================================================================
+
+/**
+ * FNV-1a hash of a string, used as a PRNG seed
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG returning floats in [0, 1)
+ */
+function createRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function clampScore(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function toTopic({ name, description, priority, category, keywords, source }: TopicTemplate): ExtractedTopic {
+  return { name, description, priority, category, keywords, source };
+}
+
+// =========================================================================
+// Topic Extraction
+// =========================================================================
+
+/**
+ * Whether a trigger occurs in the text as a whole word: not preceded or
+ * followed by a letter or digit. Triggers like "c#" and "ci/cd" keep their
+ * punctuation.
+ */
+function hasWord(text: string, trigger: string): boolean {
+  for (let index = text.indexOf(trigger); index !== -1; index = text.indexOf(trigger, index + 1)) {
+    const before = text[index - 1] ?? ' ';
+    const after = text[index + trigger.length] ?? ' ';
+    if (!/[\p{L}\p{N}]/u.test(before) && !/[\p{L}\p{N}]/u.test(after)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function isTriggered(text: string, topic: TopicTemplate): boolean {
+  return topic.triggers.some((trigger) => hasWord(text, trigger));
+}
+
+/**
+ * Tag technology topics against the resume: mentioned ones are strengths,
+ * the rest gaps. One technology only the resume mentions is added as a
+ * resume topic so its projects get probed.
+ */
+function crossReferenceResume(matched: TopicTemplate[], resumeText: string): TopicTemplate[] {
+  const resume = resumeText.toLowerCase();
+  const tagged = matched.map((topic) => ({ ...topic, source: isTriggered(resume, topic) ? 'resume' : 'gap' } as const));
+  const resumeOnly = TECHNOLOGY_TOPICS.find((topic) => !matched.includes(topic) && isTriggered(resume, topic));
+
+  return resumeOnly ? [...tagged, { ...resumeOnly, priority: 2, source: 'resume' }] : tagged;
+}
+
+function buildTopics(context: Context<'topic-extraction'>): AITopicExtractionResponse {
+  const text = `${context.roleTitle} ${context.jobDescription}`.toLowerCase();
+
+  const matched = TECHNOLOGY_TOPICS.filter((topic) => isTriggered(text, topic)).slice(0, 5);
+  const technology = context.resumeText ? crossReferenceResume(matched, context.resumeText) : matched;
+
+  // Pad with generic topics so every session gets 4-8 topics
+  const topicCount = Math.max(4, Math.min(8, technology.length + 2));
+  const topics = [...technology, ...GENERIC_TOPICS]
+    .slice(0, topicCount)
+    .sort((a, b) => a.priority - b.priority)
+    .map(toTopic);
+
+  return { topics };
+}
+
+// =========================================================================
+// Question Generation
+// =========================================================================
+
+/**
+ * Split `count` items across keys in proportion to their share (shares sum
+ * to 1) using largest-remainder rounding
+ */
+function allocate<T extends string>(mix: Partial<Record<T, number>>, count: number): T[] {
+  const keys = Object.keys(mix) as T[];
+
+  const exact = keys.map((key) => ({ key, value: (mix[key] ?? 0) * count }));
+  const allocation = new Map(exact.map(({ key, value }) => [key, Math.floor(value)]));
+  let remaining = count - Array.from(allocation.values()).reduce((sum, n) => sum + n, 0);
+
+  for (const { key } of [...exact].sort((a, b) => (b.value % 1) - (a.value % 1))) {
+    if (remaining === 0) break;
+    allocation.set(key, allocation.get(key)! + 1);
+    remaining--;
+  }
+
+  return keys.flatMap((key) => Array<T>(allocation.get(key)!).fill(key));
+}
+
+/**
+ * Build the difficulty of each question from the seniority mix, then
+ * shuffle deterministically.
+ */
+function buildDifficulties(context: Context<'question-generation'>, count: number): QuestionDifficulty[] {
+  const difficulties = allocate(DIFFICULTY_MIX[context.seniorityLevel], count);
+  return shuffle(difficulties, createRandom(`${context.roleTitle}|${context.seniorityLevel}|difficulty`));
+}
+
+/**
+ * Build the category of each question from the requested category weights,
+ * or null to derive categories from the topics
+ */
+function buildCategories(context: Context<'question-generation'>, count: number): QuestionCategory[] | null {
+  const weights = Object.entries(context.categoryWeights ?? {}) as [QuestionCategory, number][];
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total === 0) {
+    return null;
+  }
+
+  const mix = Object.fromEntries(weights.map(([category, weight]) => [category, weight / total]));
+  const categories = allocate<QuestionCategory>(mix, count);
+  return shuffle(categories, createRandom(`${context.roleTitle}|${context.seniorityLevel}|category`));
+}
+
+function buildQuestions(context: Context<'question-generation'>): AIQuestionGenerationResponse {
+  const topics = context.topics.length > 0 ? context.topics : GENERIC_TOPICS.map(toTopic);
+  const count = Math.max(context.targetQuestions, topics.length);
+  const difficulties = buildDifficulties(context, count);
+  const requestedCategories = buildCategories(context, count);
+  const usedTemplates = new Map<string, number>();
+
+  const questions: GeneratedQuestionRaw[] = difficulties.map((difficulty, index) => {
+    const topic = topics[index % topics.length];
+    const round = Math.floor(index / topics.length);
+    const categories = TOPIC_CATEGORY_TO_QUESTION[topic.category] ?? ['technical'];
+    const category = requestedCategories?.[index] ?? categories[round % categories.length];
+
+    // Rotate through templates from a seeded starting point to avoid repeats
+    const source = topic.source ?? 'jd';
+    const templates = source === 'jd' ? QUESTION_TEMPLATES[category] : RESUME_QUESTION_TEMPLATES[source];
+    const random = createRandom(`${context.roleTitle}|${context.seniorityLevel}|${topic.name}|${category}`);
+    const offset = Math.floor(random() * templates.length);
+    const key = `${topic.name}|${category}`;
+    const used = usedTemplates.get(key) ?? 0;
+    usedTemplates.set(key, used + 1);
+    const template = templates[(offset + used) % templates.length];
+    const expectedTopics = topic.keywords.slice(0, 3);
+
+    return {
+      topicName: topic.name,
+      question: template.replace('{topic}', topic.name).replace('{role}', context.roleTitle),
+      category,
+      difficulty,
+      expectedTopics,
+      timeLimitSeconds: QUESTION_TIME_LIMITS[category].default,
+      source,
+      referenceAnswer: RUBRIC_TEMPLATES.referenceAnswer
+        .replace('{points}', expectedTopics.join(', '))
+        .replace('{topic}', topic.name),
+      rubric: { mustMention: expectedTopics, redFlags: [...RUBRIC_TEMPLATES.redFlags] },
+    };
+  });
+
+  return { questions };
+}
+
+/**
+ * Pick the first template for the question's topic and category that no
+ * question in the session already uses
+ */
+function buildRegeneratedQuestion(context: Context<'question-regeneration'>): GeneratedQuestionRaw {
+  const { question } = context;
+  const topicName = question.topicName ?? 'this area';
+  const source = question.source ?? 'jd';
+  const templates = source === 'jd' ? QUESTION_TEMPLATES[question.category] : RESUME_QUESTION_TEMPLATES[source];
+  const taken = new Set([question.question, ...context.existingQuestions]);
+
+  const random = createRandom(`${context.roleTitle}|${question.question}|regenerate`);
+  const offset = Math.floor(random() * templates.length);
+  const candidates = templates.map((_, i) =>
+    templates[(offset + i) % templates.length].replace('{topic}', topicName).replace('{role}', context.roleTitle)
+  );
+  const text = candidates.find((candidate) => !taken.has(candidate)) ?? `${candidates[0]} Use a recent example.`;
+  const expectedTopics = question.expectedTopics.length > 0 ? question.expectedTopics : [topicName];
+
+  return {
+    topicName: question.topicName,
+    question: text,
+    category: question.category,
+    difficulty: question.difficulty,
+    expectedTopics,
+    timeLimitSeconds: QUESTION_TIME_LIMITS[question.category].default,
+    source: question.source,
+    referenceAnswer: RUBRIC_TEMPLATES.referenceAnswer
+      .replace('{points}', expectedTopics.join(', '))
+      .replace('{topic}', topicName),
+    rubric: { mustMention: expectedTopics.slice(0, 8), redFlags: [...RUBRIC_TEMPLATES.redFlags] },
+  };
+}
+
+// =========================================================================
+// Evaluation
+// =========================================================================
+
+const STRUCTURE_MARKERS = ['first', 'second', 'then', 'next', 'finally', 'because', 'for example', 'as a result'];
+
+/**
+ * Measurable features of a transcript used to derive scores
+ */
+interface TranscriptFeatures {
+  wordCount: number;
+  matchedTopics: string[];
+  missingTopics: string[];
+  coverage: number;
+  fillerRate: number;
+  structureMarkers: number;
+}
+
+/**
+ * A phrase is mentioned if it appears, or all of its significant words do
+ */
+function mentions(text: string, phrase: string): boolean {
+  const lower = phrase.toLowerCase();
+  if (text.includes(lower)) return true;
+  const words = lower.split(/\W+/).filter((w) => w.length > 3);
+  return words.length > 0 && words.every((w) => text.includes(w));
+}
+
+function analyzeTranscript(transcription: string, expectedTopics: string[]): TranscriptFeatures {
+  const text = transcription.toLowerCase();
+  const wordCount = text.split(/\s+/).filter(Boolean).length;
+
+  const matchedTopics = expectedTopics.filter((topic) => mentions(text, topic));
+  const missingTopics = expectedTopics.filter((t) => !matchedTopics.includes(t));
+  const { fillerRate } = computeSpeechMetrics({ transcription, durationSeconds: null });
+  const structureMarkers = STRUCTURE_MARKERS.filter((marker) => text.includes(marker)).length;
+
+  return {
+    wordCount,
+    matchedTopics,
+    missingTopics,
+    coverage: expectedTopics.length > 0 ? matchedTopics.length / expectedTopics.length : 0.5,
+    fillerRate,
+    structureMarkers,
+  };
+}
+
+/**
+ * Confidence points lost to measured delivery problems: pace outside the
+ * typical range, long pauses and repeated words
+ */
+function getDeliveryPenalty(metrics: SpeechMetrics | undefined): number {
+  if (!metrics) return 0;
+
+  const pace = metrics.wordsPerMinute;
+  const paceGap = pace === undefined ? 0 : Math.max(TYPICAL_PACE.min - pace, pace - TYPICAL_PACE.max, 0);
+  const pausePenalty = (metrics.longestPauseMs ?? 0) > LONG_PAUSE_MS ? 10 : 0;
+
+  return Math.min(20, paceGap / 2) + pausePenalty + Math.min(10, metrics.repetitionCount * 2);
+}
+
+function buildEvaluation(context: Context<'evaluation'>): AIEvaluationResponse {
+  const features = analyzeTranscript(context.transcription, context.question.expectedTopics);
+  // Later consistency-mode samples get their own jitter; sample 0 matches a single run
+  const random = createRandom(
+    `${context.question.question}|${context.transcription}${context.sample ? `|${context.sample}` : ''}`
+  );
+  const jitter = () => Math.round(random() * 6) - 3;
+
+  const text = context.transcription.toLowerCase();
+  const { rubric } = context.question;
+  const rubricResult = rubric && {
+    hits: rubric.mustMention.filter((point) => mentions(text, point)),
+    misses: rubric.mustMention.filter((point) => !mentions(text, point)),
+    redFlags: rubric.redFlags.filter((flag) => mentions(text, flag)),
+  };
+  const redFlagPenalty = (rubricResult?.redFlags.length ?? 0) * 15;
+  const deliveryPenalty = getDeliveryPenalty(context.speechMetrics);
+
+  // Answers under ~40 words are treated as incomplete
+  const lengthFactor = Math.min(1, features.wordCount / 40);
+  const detailFactor = Math.min(1, features.wordCount / 250);
+
+  const scores: EvaluationScores = features.wordCount === 0
+    ? { relevance: 0, technicalAccuracy: 0, clarity: 0, depth: 0, structure: 0, confidence: 0 }
+    : {
+        relevance: clampScore((30 + features.coverage * 60) * lengthFactor + jitter()),
+        technicalAccuracy: clampScore((35 + features.coverage * 55) * lengthFactor - redFlagPenalty + jitter()),
+        clarity: clampScore(85 - features.fillerRate * 300 - (features.wordCount > 350 ? 10 : 0) + jitter()),
+        depth: clampScore(20 + detailFactor * 70 + jitter()),
+        structure: clampScore(45 + Math.min(features.structureMarkers, 4) * 12 + jitter()),
+        confidence: clampScore(90 - features.fillerRate * 400 - deliveryPenalty + jitter()),
+      };
+
+  const overallScore = Math.round(
+    scores.relevance * 0.25 +
+      scores.technicalAccuracy * 0.25 +
+      scores.clarity * 0.2 +
+      scores.depth * 0.15 +
+      scores.structure * 0.1 +
+      scores.confidence * 0.05
+  );
+
+  const { strengths: s, improvements: i, suggestions } = FEEDBACK_TEMPLATES;
+  const strengths: string[] = [];
+  const improvements: string[] = [];
+
+  if (features.coverage >= 0.6) strengths.push(s.coverage);
+  else improvements.push(i.coverage.replace('{missing}', features.missingTopics.join(', ')));
+
+  if (features.wordCount >= 120) strengths.push(s.detail);
+  else improvements.push(i.detail);
+
+  if (features.fillerRate < 0.02) strengths.push(features.wordCount < 200 ? s.concise : s.fluent);
+  else improvements.push(i.fluent);
+
+  if (features.structureMarkers < 2) improvements.push(i.structure);
+  if (improvements.length < 2) improvements.push(i.tradeoffs);
+  if (strengths.length === 0) strengths.push(s.attempt);
+
+  return {
+    scores,
+    overallScore,
+    feedback: {
+      strengths: strengths.slice(0, 4),
+      improvements: improvements.slice(0, 4),
+      suggestion: suggestions[Math.floor(random() * suggestions.length)],
+    },
+    rubric: rubricResult,
+  };
+}
+
+/**
+ * Follow up on the first expected topic the answer missed, as long as the
+ * answer is long enough to build on
+ */
+function buildFollowUp(context: Context<'follow-up'>): AIFollowUpResponse {
+  const features = analyzeTranscript(context.transcription, context.question.expectedTopics);
+
+  if (features.wordCount < 15) {
+    return { shouldFollowUp: false, reason: 'The answer is too short to build a follow-up on' };
+  }
+
+  const [topic] = features.missingTopics;
+  if (!topic) {
+    return { shouldFollowUp: false, reason: 'The answer covers all expected topics' };
+  }
+
+  const random = createRandom(`${context.question.question}|${context.transcription}|follow-up`);
+  const template = FOLLOW_UP_TEMPLATES[Math.floor(random() * FOLLOW_UP_TEMPLATES.length)];
+
+  return {
+    shouldFollowUp: true,
+    reason: `The answer did not address ${topic}`,
+    followUp: {
+      question: template.replace('{topic}', topic),
+      expectedTopics: [topic],
+      timeLimitSeconds: QUESTION_TIME_LIMITS[context.question.category].min,
+    },
+  };
+}
+
+// =========================================================================
+// Seniority Inference
+// =========================================================================
+
+/**
+ * Confirm the rule-based level; the fixture has no better signal to add
+ */
+function buildSeniority(context: Context<'seniority-inference'>): AISeniorityResponse {
+  const { level, confidence, rationale } = context.ruleBased;
+  return {
+    level,
+    confidence: Math.max(confidence, 0.6),
+    rationale: `Keyword signals were inconclusive; keeping ${level}. ${rationale}`,
+  };
+}
+
+// =========================================================================
+// Provider
+// =========================================================================
+
+function buildResponse(context: AITaskContext): unknown {
+  switch (context.task) {
+    case 'topic-extraction':
+      return buildTopics(context);
+    case 'question-generation':
+      return buildQuestions(context);
+    case 'question-regeneration':
+      return buildRegeneratedQuestion(context);
+    case 'evaluation':
+      return buildEvaluation(context);
+    case 'follow-up':
+      return buildFollowUp(context);
+    case 'seniority-inference':
+      return buildSeniority(context);
+  }
+}
+
+/**
+ * Create a provider that answers every task locally
+ */
+export function createFixtureProvider(): AIProvider {
+  return {
+    name: 'fixture',
+    model: 'fixture',
+    completeJSON: async (request) => JSON.stringify(buildResponse(request.context)),
+  };
+}
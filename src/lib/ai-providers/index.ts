@@ -0,0 +1,41 @@
+// =========================================================================
+// AI Tech Interview - AI Provider Registry
+// Selects the chat-completion backend from AI_PROVIDER
+// =========================================================================
+
+import { getConfiguredProviderName } from './config';
+import { createAzureOpenAIProvider } from './azure';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { createFixtureProvider } from './fixture';
+import type { AIProvider, AIProviderName } from './types';
+
+export type {
+  AIProvider,
+  AIProviderName,
+  AITask,
+  AITaskContext,
+  ChatCompletionRequest,
+  ChatMessage,
+} from './types';
+
+const PROVIDER_FACTORIES: Record<AIProviderName, () => AIProvider> = {
+  azure: createAzureOpenAIProvider,
+  openai: createOpenAICompatibleProvider,
+  fixture: createFixtureProvider,
+};
+
+// =========================================================================
+// Provider Singleton
+// =========================================================================
+
+let provider: AIProvider | null = null;
+
+/**
+ * Get the configured AI provider (created once per process)
+ */
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    provider = PROVIDER_FACTORIES[getConfiguredProviderName()]();
+  }
+  return provider;
+}
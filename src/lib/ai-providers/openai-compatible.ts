@@ -0,0 +1,60 @@
+// =========================================================================
+// AI Tech Interview - OpenAI-Compatible Provider
+// Works with OpenAI and local servers (llama.cpp, Ollama, vLLM)
+// =========================================================================
+
+import OpenAI from 'openai';
+import { getEnvVar } from './config';
+import type { AIProvider, ChatCompletionRequest } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Send a JSON chat completion through any OpenAI SDK client
+ */
+export async function createJSONCompletion(
+  client: OpenAI,
+  model: string,
+  request: ChatCompletionRequest,
+  jsonMode = true
+): Promise<string> {
+  const response = await client.chat.completions.create({
+    model,
+    ...(jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+  });
+
+  const content = response.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error('No response content from AI provider');
+  }
+
+  return content;
+}
+
+/**
+ * Create a provider for plain OpenAI or a local OpenAI-compatible server.
+ *
+ * Local servers usually ignore the API key, so it is optional when a
+ * custom OPENAI_BASE_URL is set. Set OPENAI_JSON_MODE=false for servers
+ * that reject the `response_format` parameter.
+ */
+export function createOpenAICompatibleProvider(): AIProvider {
+  const baseURL = process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL;
+  const isLocal = baseURL !== DEFAULT_BASE_URL;
+  const apiKey = isLocal
+    ? process.env.OPENAI_API_KEY || 'not-needed'
+    : getEnvVar('OPENAI_API_KEY');
+  const model = getEnvVar('OPENAI_MODEL');
+  const jsonMode = process.env.OPENAI_JSON_MODE !== 'false';
+
+  const client = new OpenAI({ apiKey, baseURL });
+
+  return {
+    name: 'openai',
+    model,
+    completeJSON: (request) => createJSONCompletion(client, model, request, jsonMode),
+  };
+}
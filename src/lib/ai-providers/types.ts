@@ -0,0 +1,95 @@
+// =========================================================================
+// AI Tech Interview - AI Provider Types
+// Contract shared by every chat-completion backend
+// =========================================================================
+
+import type { AITopicExtractionResponse, EvaluationQuestionInput, RegenerationQuestionInput } from '@/types/api';
+import type { QuestionCategory, SeniorityInference, SeniorityLevel, SpeechMetrics } from '@/types/interview';
+
+/**
+ * Supported provider implementations (selected via AI_PROVIDER)
+ */
+export type AIProviderName = 'azure' | 'openai' | 'fixture';
+
+/**
+ * Chat message sent to the model
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Structured description of the AI task being performed.
+ * Network providers only need the messages; the fixture provider
+ * builds its deterministic output from this context instead.
+ */
+export type AITaskContext =
+  | {
+      task: 'topic-extraction';
+      roleTitle: string;
+      jobDescription: string;
+      resumeText?: string;
+    }
+  | {
+      task: 'question-generation';
+      roleTitle: string;
+      jobDescription: string;
+      seniorityLevel: SeniorityLevel;
+      topics: AITopicExtractionResponse['topics'];
+      targetQuestions: number;
+      categoryWeights?: Partial<Record<QuestionCategory, number>>;
+      resumeText?: string;
+    }
+  | {
+      task: 'question-regeneration';
+      roleTitle: string;
+      seniorityLevel: SeniorityLevel;
+      question: RegenerationQuestionInput;
+      /** Other questions in the session, which the replacement must not repeat */
+      existingQuestions: string[];
+    }
+  | {
+      task: 'evaluation';
+      question: EvaluationQuestionInput;
+      transcription: string;
+      roleTitle: string;
+      seniorityLevel: SeniorityLevel;
+      sample?: number; // Index of the sample in consistency mode
+      speechMetrics?: SpeechMetrics;
+    }
+  | {
+      task: 'follow-up';
+      question: EvaluationQuestionInput;
+      transcription: string;
+      roleTitle: string;
+      seniorityLevel: SeniorityLevel;
+    }
+  | {
+      task: 'seniority-inference';
+      roleTitle: string;
+      jobDescription: string;
+      ruleBased: SeniorityInference;
+    };
+
+export type AITask = AITaskContext['task'];
+
+/**
+ * JSON chat completion request
+ */
+export interface ChatCompletionRequest {
+  context: AITaskContext;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+}
+
+/**
+ * A chat-completion backend that returns raw JSON text
+ */
+export interface AIProvider {
+  readonly name: AIProviderName;
+  /** Model or deployment name used for completions */
+  readonly model: string;
+  completeJSON(request: ChatCompletionRequest): Promise<string>;
+}
@@ -0,0 +1,271 @@
+// =========================================================================
+// AI Tech Interview - AI Response Schemas
+// Runtime validation for structured model output, field by field.
+// Validators return the normalized value plus human-readable errors that
+// can be sent back to the model when asking it to repair its output.
+// =========================================================================
+
+import type {
+  AIEvaluationResponse,
+  AIFollowUpResponse,
+  AIQuestionGenerationResponse,
+  AISeniorityResponse,
+  AITopicExtractionResponse,
+  ExtractedTopic,
+  GeneratedFollowUpRaw,
+  GeneratedQuestionRaw,
+} from '@/types/api';
+import type {
+  EvaluationScores,
+  QuestionCategory,
+  QuestionDifficulty,
+  QuestionRubric,
+  RubricResult,
+  QuestionSource,
+  SeniorityLevel,
+} from '@/types/interview';
+
+// =========================================================================
+// Schema Primitives
+// =========================================================================
+
+/**
+ * Validator for a value at a given path (e.g. `questions[2].category`)
+ */
+export type Schema<T> = (value: unknown, path: string, errors: string[]) => T;
+
+/**
+ * Result of validating raw model output
+ */
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+export function string(options: { minLength?: number } = {}): Schema<string> {
+  const minLength = options.minLength ?? 1;
+  return (value, path, errors) => {
+    if (typeof value !== 'string') {
+      errors.push(`${path}: expected string, got ${describe(value)}`);
+      return '';
+    }
+    const trimmed = value.trim();
+    if (trimmed.length < minLength) {
+      errors.push(`${path}: must be at least ${minLength} character(s)`);
+    }
+    return trimmed;
+  };
+}
+
+/**
+ * Number within [min, max]. Integer schemas round fractional values
+ * (e.g. 82.5 -> 83) because they are persisted to Int columns.
+ */
+export function number(options: { min: number; max: number; integer?: boolean }): Schema<number> {
+  return (value, path, errors) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${path}: expected number between ${options.min} and ${options.max}, got ${describe(value)}`);
+      return options.min;
+    }
+    const normalized = options.integer ? Math.round(value) : value;
+    if (normalized < options.min || normalized > options.max) {
+      errors.push(`${path}: must be between ${options.min} and ${options.max}, got ${value}`);
+    }
+    return normalized;
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return (value, path, errors) => {
+    if (typeof value !== 'boolean') {
+      errors.push(`${path}: expected boolean, got ${describe(value)}`);
+      return false;
+    }
+    return value;
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return (value, path, errors) => {
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      errors.push(`${path}: expected one of ${values.join(', ')}, got ${describe(value)}`);
+      return values[0];
+    }
+    return value as T;
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { minLength?: number; maxLength?: number } = {}): Schema<T[]> {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: expected array, got ${describe(value)}`);
+      return [];
+    }
+    if (options.minLength !== undefined && value.length < options.minLength) {
+      errors.push(`${path}: must contain at least ${options.minLength} item(s), got ${value.length}`);
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      errors.push(`${path}: must contain at most ${options.maxLength} item(s), got ${value.length}`);
+    }
+    return value.map((entry, i) => item(entry, `${path}[${i}]`, errors));
+  };
+}
+
+export function object<T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return (value, path, errors) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push(`${path}: expected object, got ${describe(value)}`);
+      return {} as T;
+    }
+    const record = value as Record<string, unknown>;
+    const result = {} as T;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      result[key] = shape[key](record[key], path ? `${path}.${key}` : key, errors);
+    }
+    return result;
+  };
+}
+
+/**
+ * Accept a missing (undefined/null) field, substituting a fallback value
+ */
+export function optional<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return (value, path, errors) => (value === undefined || value === null ? fallback : schema(value, path, errors));
+}
+
+/**
+ * Validate an already-parsed value (e.g. a request body) against a schema
+ */
+export function validateWithSchema<T>(value: unknown, schema: Schema<T>): SchemaResult<T> {
+  const errors: string[] = [];
+  const data = schema(value, '', errors);
+  return errors.length > 0 ? { success: false, errors } : { success: true, data };
+}
+
+/**
+ * Parse raw JSON text and validate it against a schema
+ */
+export function parseWithSchema<T>(content: string, schema: Schema<T>): SchemaResult<T> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return { success: false, errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  return validateWithSchema(raw, schema);
+}
+
+// =========================================================================
+// AI Response Schemas
+// =========================================================================
+
+export const QUESTION_CATEGORIES: readonly QuestionCategory[] = ['technical', 'system-design', 'behavioral', 'problem-solving'];
+export const QUESTION_DIFFICULTIES: readonly QuestionDifficulty[] = ['junior', 'mid', 'senior', 'staff', 'principal'];
+export const QUESTION_SOURCES: readonly QuestionSource[] = ['jd', 'resume', 'gap'];
+export const SENIORITY_LEVELS: readonly SeniorityLevel[] = ['junior', 'mid', 'senior', 'staff', 'principal'];
+const TOPIC_CATEGORIES: readonly ExtractedTopic['category'][] = [
+  'technical',
+  'system-design',
+  'domain',
+  'soft-skills',
+  'methodology',
+];
+
+const score = number({ min: 0, max: 100, integer: true });
+
+export const topicExtractionSchema: Schema<AITopicExtractionResponse> = object<AITopicExtractionResponse>({
+  topics: array(
+    object<ExtractedTopic>({
+      name: string(),
+      description: optional(string({ minLength: 0 }), ''),
+      priority: number({ min: 1, max: 3, integer: true }),
+      category: oneOf(TOPIC_CATEGORIES),
+      keywords: optional(array(string()), []),
+      source: optional<QuestionSource | undefined>(oneOf(QUESTION_SOURCES), undefined),
+    }),
+    { minLength: 1, maxLength: 12 }
+  ),
+});
+
+export const rubricSchema: Schema<QuestionRubric> = object<QuestionRubric>({
+  mustMention: array(string(), { minLength: 1, maxLength: 8 }),
+  redFlags: optional(array(string(), { maxLength: 5 }), []),
+});
+
+export const generatedQuestionSchema: Schema<GeneratedQuestionRaw> = object<GeneratedQuestionRaw>({
+  question: string({ minLength: 10 }),
+  category: oneOf(QUESTION_CATEGORIES),
+  difficulty: oneOf(QUESTION_DIFFICULTIES),
+  expectedTopics: array(string(), { minLength: 1, maxLength: 8 }),
+  timeLimitSeconds: number({ min: 15, max: 900, integer: true }),
+  topicName: optional<string | undefined>(string(), undefined),
+  source: optional<QuestionSource | undefined>(oneOf(QUESTION_SOURCES), undefined),
+  referenceAnswer: optional<string | undefined>(string(), undefined),
+  rubric: optional<QuestionRubric | undefined>(rubricSchema, undefined),
+});
+
+type QuestionGenerationOutput = Pick<AIQuestionGenerationResponse, 'questions'>;
+
+export const questionGenerationSchema: Schema<QuestionGenerationOutput> = object<QuestionGenerationOutput>({
+  questions: array(generatedQuestionSchema, { minLength: 1 }),
+});
+
+export const evaluationSchema: Schema<AIEvaluationResponse> = object<AIEvaluationResponse>({
+  scores: object<EvaluationScores>({
+    relevance: score,
+    technicalAccuracy: score,
+    clarity: score,
+    depth: score,
+    structure: score,
+    confidence: score,
+  }),
+  // Ignored if present: the overall score is computed server-side (see scoring.ts)
+  overallScore: optional(score, 0),
+  feedback: object({
+    strengths: array(string(), { minLength: 1 }),
+    improvements: array(string(), { minLength: 1 }),
+    suggestion: string(),
+  }),
+  rubric: optional<RubricResult | undefined>(
+    object<RubricResult>({
+      hits: optional(array(string()), []),
+      misses: optional(array(string()), []),
+      redFlags: optional(array(string()), []),
+    }),
+    undefined
+  ),
+});
+
+const followUpShape = object<AIFollowUpResponse>({
+  shouldFollowUp: boolean(),
+  reason: string(),
+  followUp: optional<GeneratedFollowUpRaw | undefined>(
+    object<GeneratedFollowUpRaw>({
+      question: string({ minLength: 10 }),
+      expectedTopics: array(string(), { minLength: 1, maxLength: 8 }),
+      timeLimitSeconds: number({ min: 15, max: 900, integer: true }),
+    }),
+    undefined
+  ),
+});
+
+export const followUpSchema: Schema<AIFollowUpResponse> = (value, path, errors) => {
+  const result = followUpShape(value, path, errors);
+  if (result.shouldFollowUp && !result.followUp) {
+    errors.push('followUp: required when shouldFollowUp is true');
+  }
+  return result;
+};
+
+export const senioritySchema: Schema<AISeniorityResponse> = object<AISeniorityResponse>({
+  level: oneOf(SENIORITY_LEVELS),
+  confidence: number({ min: 0, max: 1 }),
+  rationale: string(),
+});
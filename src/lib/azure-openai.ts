@@ -1,57 +1,102 @@
 // =========================================================================
-// AI Tech Interview - Azure OpenAI Client
+// AI Tech Interview - AI Client
+// Prompting and parsing for every AI call; the transport is provided by
+// the configured AI provider (Azure OpenAI by default)
 // =========================================================================
 
-import { AzureOpenAI } from 'openai';
 import type {
   AIQuestionGenerationResponse,
   AIEvaluationResponse,
+  AIFollowUpResponse,
+  AISeniorityResponse,
   AITopicExtractionResponse,
+  EvaluationQuestionInput,
+  GeneratedQuestionRaw,
+  RegenerationQuestionInput,
 } from '@/types/api';
 import type {
+  InterviewLanguage,
+  QuestionRubric,
+  RubricResult,
+  SeniorityInference,
   SeniorityLevel,
-  InterviewQuestion,
-  EvaluationScores,
+  SpeechMetrics,
 } from '@/types/interview';
+import { getAIProvider, type ChatCompletionRequest } from './ai-providers';
+import { aggregateEvaluationSamples, getEvaluationSampleCount } from './evaluation-ensemble';
+import { computeOverallScore, CURRENT_WEIGHT_PROFILE_VERSION } from './scoring';
 import {
-  getQuestionGenerationPrompt,
-  getEvaluationPrompt,
-  getTopicExtractionPrompt,
+  evaluationSchema,
+  followUpSchema,
+  generatedQuestionSchema,
+  parseWithSchema,
+  questionGenerationSchema,
+  senioritySchema,
+  topicExtractionSchema,
+  type Schema,
+} from './ai-schemas';
+import {
+  getFollowUpPrompt,
+  getOutputLanguageRules,
+  getQuestionRegenerationPrompt,
+  getRepairPrompt,
+  getSeniorityExpectations,
+  getSeniorityInferencePrompt,
   DEFAULT_QUESTION_CONFIG,
   type QuestionGenerationConfig,
 } from './prompts';
+import { renderPrompt } from './prompt-registry';
+import { DEFAULT_LANGUAGE } from './languages';
+import { describeSpeechMetrics } from './speech-metrics';
 
 // =========================================================================
-// Environment Validation
+// Structured Completion
 // =========================================================================
 
-function getEnvVar(name: string): string {
-  const value = process.env[name];
-  if (!value) {
-    throw new Error(`Missing required environment variable: ${name}`);
-  }
-  return value;
-}
+/**
+ * Number of times the model is re-asked after returning invalid output
+ */
+const MAX_REPAIR_ATTEMPTS = 2;
 
-// =========================================================================
-// Azure OpenAI Client Singleton
-// =========================================================================
+/**
+ * Request a JSON completion and validate it against a schema.
+ * On validation failure, the errors are sent back to the model and it is
+ * asked to correct its output, up to MAX_REPAIR_ATTEMPTS times.
+ */
+async function completeStructured<T>(
+  request: ChatCompletionRequest,
+  schema: Schema<T>,
+  label: string
+): Promise<T> {
+  const provider = getAIProvider();
+  let messages = request.messages;
+
+  for (let attempt = 0; ; attempt++) {
+    const content = await provider.completeJSON({ ...request, messages });
+    const result = parseWithSchema(content, schema);
+
+    if (result.success) {
+      return result.data;
+    }
 
-let openaiClient: AzureOpenAI | null = null;
+    console.warn(
+      `Invalid ${label} response (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}):`,
+      result.errors
+    );
 
-function getOpenAIClient(): AzureOpenAI {
-  if (!openaiClient) {
-    openaiClient = new AzureOpenAI({
-      apiKey: getEnvVar('AZURE_OPENAI_API_KEY'),
-      endpoint: getEnvVar('AZURE_OPENAI_ENDPOINT'),
-      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
-    });
-  }
-  return openaiClient;
-}
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      console.error(`Failed to parse ${label} response:`, content);
+      throw new Error(
+        `Failed to parse ${label} response after ${attempt + 1} attempts: ${result.errors.slice(0, 5).join('; ')}`
+      );
+    }
 
-function getDeploymentName(): string {
-  return getEnvVar('AZURE_OPENAI_DEPLOYMENT');
+    messages = [
+      ...request.messages,
+      { role: 'assistant', content },
+      { role: 'user', content: getRepairPrompt(result.errors) },
+    ];
+  }
 }
 
 // =========================================================================
@@ -59,55 +104,54 @@ function getDeploymentName(): string {
 // =========================================================================
 
 /**
- * Extract key topics from a job description
+ * Format the candidate's resume for a user prompt (empty without one)
+ */
+function formatResume(resumeText?: string): string {
+  return resumeText ? `\nCandidate Resume:\n${resumeText}\n` : '';
+}
+
+/**
+ * Extract key topics from a job description, using the given prompt
+ * version (see prompt-registry.ts) or the built-in. With a resume, each
+ * topic is tagged as a resume strength, a gap or a plain JD requirement.
+ * Topic names and descriptions are written in the interview `language`.
  */
 export async function extractTopicsFromJobDescription(
   roleTitle: string,
-  jobDescription: string
+  jobDescription: string,
+  promptRef?: string,
+  resumeText?: string,
+  language: InterviewLanguage = DEFAULT_LANGUAGE
 ): Promise<AITopicExtractionResponse> {
-  const client = getOpenAIClient();
-  const deployment = getDeploymentName();
-
-  const systemPrompt = getTopicExtractionPrompt();
+  const { content: systemPrompt } = await renderPrompt('topic-extraction', { withResume: !!resumeText }, promptRef);
 
   const userPrompt = `
 Role Title: ${roleTitle}
 
 Job Description:
 ${jobDescription}
-
+${formatResume(resumeText)}
 Extract the key technical and soft skill topics from this job description that should be covered in an interview.
-`;
-
-  const response = await client.chat.completions.create({
-    model: deployment,
-    response_format: { type: 'json_object' },
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ],
-    temperature: 0.5,
-    max_tokens: 2000,
-  });
-
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error('No response content from Azure OpenAI');
-  }
-
-  try {
-    const parsed = JSON.parse(content) as AITopicExtractionResponse;
-    
-    // Validate response structure
-    if (!parsed.topics || !Array.isArray(parsed.topics) || parsed.topics.length === 0) {
-      throw new Error('Invalid response structure: missing or empty topics array');
-    }
+${getOutputLanguageRules(language)}`;
+
+  const parsed = await completeStructured(
+    {
+      context: { task: 'topic-extraction', roleTitle, jobDescription, resumeText },
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      temperature: 0.5,
+      maxTokens: 2000,
+    },
+    topicExtractionSchema,
+    'topic extraction'
+  );
 
-    return parsed;
-  } catch (error) {
-    console.error('Failed to parse topic extraction response:', content);
-    throw new Error(`Failed to parse topic extraction response: ${error}`);
-  }
+  // Sources only mean something relative to a resume
+  return {
+    topics: parsed.topics.map((topic) => ({ ...topic, source: resumeText ? (topic.source ?? 'jd') : 'jd' })),
+  };
 }
 
 // =========================================================================
@@ -115,35 +159,51 @@ Extract the key technical and soft skill topics from this job description that s
 // =========================================================================
 
 /**
- * Generate interview questions based on role, job description, and extracted topics
+ * Generate interview questions based on role, job description, and extracted
+ * topics. With a resume, questions probe its projects and cover its gaps,
+ * and each question is tagged with the source of its topic. Questions are
+ * written in the interview `language`.
  */
 export async function generateInterviewQuestions(
   roleTitle: string,
   jobDescription: string,
   seniorityLevel: SeniorityLevel,
   topics?: AITopicExtractionResponse['topics'],
-  config: QuestionGenerationConfig = DEFAULT_QUESTION_CONFIG
+  config: QuestionGenerationConfig = DEFAULT_QUESTION_CONFIG,
+  promptRef?: string,
+  resumeText?: string,
+  language: InterviewLanguage = DEFAULT_LANGUAGE
 ): Promise<AIQuestionGenerationResponse> {
-  const client = getOpenAIClient();
-  const deployment = getDeploymentName();
-
   // If topics not provided, extract them first
-  const extractedTopics = topics ?? (await extractTopicsFromJobDescription(roleTitle, jobDescription)).topics;
+  const extractedTopics =
+    topics ??
+    (await extractTopicsFromJobDescription(roleTitle, jobDescription, undefined, resumeText, language)).topics;
+
+  // Short interviews cannot fit the usual per-topic minimum
+  const minQuestionsPerTopic = Math.max(
+    1,
+    Math.min(config.minQuestionsPerTopic, Math.floor(config.maxTotalQuestions / extractedTopics.length))
+  );
 
   // Calculate target question count based on topics
   const minQuestions = Math.max(
     config.minTotalQuestions,
-    extractedTopics.length * config.minQuestionsPerTopic
+    extractedTopics.length * minQuestionsPerTopic
   );
   const targetQuestions = Math.min(minQuestions, config.maxTotalQuestions);
 
-  const systemPrompt = getQuestionGenerationPrompt(seniorityLevel, {
-    ...config,
-    minTotalQuestions: targetQuestions,
-  });
+  const { content: systemPrompt } = await renderPrompt(
+    'question-generation',
+    {
+      seniorityLevel,
+      config: { ...config, minQuestionsPerTopic, minTotalQuestions: targetQuestions },
+      withResume: !!resumeText,
+    },
+    promptRef
+  );
 
   const topicsText = extractedTopics
-    .map((t, i) => `${i + 1}. ${t.name} (Priority: ${t.priority}) - ${t.description}`)
+    .map((t, i) => `${i + 1}. ${t.name} (Priority: ${t.priority}${resumeText ? `, Source: ${t.source ?? 'jd'}` : ''}) - ${t.description}`)
     .join('\n');
 
   const userPrompt = `
@@ -151,7 +211,7 @@ Role Title: ${roleTitle}
 
 Job Description:
 ${jobDescription}
-
+${formatResume(resumeText)}
 ## EXTRACTED TOPICS TO COVER
 
 ${topicsText}
@@ -159,82 +219,217 @@ ${topicsText}
 ## REQUIREMENTS
 
 Generate between ${targetQuestions} and ${config.maxTotalQuestions} interview questions.
-Each topic MUST have at least ${config.minQuestionsPerTopic} questions.
+Each topic MUST have at least ${minQuestionsPerTopic} questions.
 Follow the seniority distribution rules for a ${seniorityLevel}-level candidate.
 Higher priority topics (1) should have more questions than lower priority topics (3).
-`;
+${getOutputLanguageRules(language)}`;
+
+  const parsed = await completeStructured(
+    {
+      context: {
+        task: 'question-generation',
+        roleTitle,
+        jobDescription,
+        seniorityLevel,
+        topics: extractedTopics,
+        targetQuestions,
+        resumeText,
+        categoryWeights: config.categoryWeights,
+      },
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      temperature: 0.7,
+      maxTokens: 6000, // Increased for more questions
+    },
+    questionGenerationSchema,
+    'question generation'
+  );
 
-  const response = await client.chat.completions.create({
-    model: deployment,
-    response_format: { type: 'json_object' },
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ],
-    temperature: 0.7,
-    max_tokens: 6000, // Increased for more questions
-  });
-
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error('No response content from Azure OpenAI');
+  // Log coverage for debugging
+  const questionsByTopic = new Map<string, number>();
+  for (const q of parsed.questions) {
+    const topicName = q.topicName || 'general';
+    questionsByTopic.set(topicName, (questionsByTopic.get(topicName) || 0) + 1);
   }
+  console.log('Question distribution by topic:', Object.fromEntries(questionsByTopic));
+
+  // A question's source follows its topic unless the model tagged it
+  const topicSources = new Map(extractedTopics.map((t) => [t.name, t.source ?? 'jd']));
+
+  return {
+    questions: parsed.questions.map((q) => ({
+      ...q,
+      source: resumeText ? (q.source ?? topicSources.get(q.topicName ?? '') ?? 'jd') : 'jd',
+    })),
+    topics: extractedTopics,
+  };
+}
 
-  try {
-    const parsed = JSON.parse(content) as AIQuestionGenerationResponse;
-    
-    // Validate response structure
-    if (!parsed.questions || !Array.isArray(parsed.questions)) {
-      throw new Error('Invalid response structure: missing questions array');
-    }
+// =========================================================================
+// Question Regeneration
+// =========================================================================
 
-    // Validate minimum questions per topic
-    const questionsByTopic = new Map<string, number>();
-    for (const q of parsed.questions) {
-      const topicName = q.topicName || 'general';
-      questionsByTopic.set(topicName, (questionsByTopic.get(topicName) || 0) + 1);
-    }
+/**
+ * Generate a replacement for one question, keeping its topic, category and
+ * difficulty and avoiding the session's other questions
+ */
+export async function regenerateInterviewQuestion(
+  roleTitle: string,
+  jobDescription: string,
+  seniorityLevel: SeniorityLevel,
+  question: RegenerationQuestionInput,
+  existingQuestions: string[],
+  language: InterviewLanguage = DEFAULT_LANGUAGE
+): Promise<GeneratedQuestionRaw> {
+  const userPrompt = `
+Role Title: ${roleTitle}
+Seniority Level: ${seniorityLevel}
 
-    // Log coverage for debugging
-    console.log('Question distribution by topic:', Object.fromEntries(questionsByTopic));
+Job Description:
+${jobDescription}
 
-    return {
-      ...parsed,
-      topics: extractedTopics,
-    };
-  } catch (error) {
-    console.error('Failed to parse OpenAI response:', content);
-    throw new Error(`Failed to parse question generation response: ${error}`);
-  }
+QUESTION TO REPLACE:
+${question.question}
+
+- Topic: ${question.topicName ?? 'General'}${question.topicDescription ? ` - ${question.topicDescription}` : ''}
+- Category: ${question.category}
+- Difficulty: ${question.difficulty}
+- Expected Topics: ${question.expectedTopics.join(', ')}
+
+OTHER QUESTIONS IN THIS SESSION (do not repeat):
+${existingQuestions.map((q, i) => `${i + 1}. ${q}`).join('\n') || 'None'}
+
+Write one replacement question.
+${getOutputLanguageRules(language)}`;
+
+  const generated = await completeStructured(
+    {
+      context: { task: 'question-regeneration', roleTitle, seniorityLevel, question, existingQuestions },
+      messages: [
+        { role: 'system', content: getQuestionRegenerationPrompt() },
+        { role: 'user', content: userPrompt },
+      ],
+      temperature: 0.9,
+      maxTokens: 1200,
+    },
+    generatedQuestionSchema,
+    'question regeneration'
+  );
+
+  // The replacement stays in the original's slot
+  return {
+    ...generated,
+    topicName: question.topicName,
+    category: question.category,
+    difficulty: question.difficulty,
+    source: question.source,
+  };
 }
 
 // =========================================================================
 // Response Evaluation
 // =========================================================================
 
+export type { EvaluationQuestionInput };
+
+/**
+ * What a single evaluator run is given besides the system prompt
+ */
+interface EvaluationInput {
+  question: EvaluationQuestionInput;
+  transcription: string;
+  roleTitle: string;
+  seniorityLevel: SeniorityLevel;
+  speechMetrics?: SpeechMetrics;
+  language: InterviewLanguage;
+}
+
 /**
- * Minimal question data needed for evaluation
+ * Map the model's rubric grading back onto the question's rubric, so every
+ * must-mention point is exactly one of hit or missed and unknown points are dropped
  */
-export interface EvaluationQuestionInput {
-  question: string;
-  category: 'technical' | 'system-design' | 'behavioral' | 'problem-solving';
-  difficulty: 'junior' | 'mid' | 'senior';
-  expectedTopics: string[];
+function reconcileRubricResult(rubric: QuestionRubric, reported: RubricResult | undefined): RubricResult {
+  const normalize = (point: string) => point.trim().toLowerCase();
+  const hits = new Set((reported?.hits ?? []).map(normalize));
+  const raised = new Set((reported?.redFlags ?? []).map(normalize));
+
+  return {
+    hits: rubric.mustMention.filter((point) => hits.has(normalize(point))),
+    misses: rubric.mustMention.filter((point) => !hits.has(normalize(point))),
+    redFlags: rubric.redFlags.filter((flag) => raised.has(normalize(flag))),
+  };
 }
 
 /**
- * Evaluate a candidate's response to a question
+ * Evaluate a candidate's response to a question, grading against the
+ * question's rubric when it has one. With `samples` > 1 the evaluator runs
+ * that many times and the per-dimension medians are returned with their spread.
+ * The overall score is always computed from the criteria (see scoring.ts):
+ * per sample, then the median across samples.
+ * `promptRef` selects the evaluation prompt version (default: built-in);
+ * `speechMetrics` are measured delivery metrics the confidence score uses;
+ * feedback is written in the interview `language`.
  */
 export async function evaluateResponse(
   question: EvaluationQuestionInput,
   transcription: string,
   roleTitle: string,
-  seniorityLevel: SeniorityLevel
+  seniorityLevel: SeniorityLevel,
+  {
+    promptRef,
+    samples = getEvaluationSampleCount(),
+    speechMetrics,
+    language = DEFAULT_LANGUAGE,
+  }: { promptRef?: string; samples?: number; speechMetrics?: SpeechMetrics; language?: InterviewLanguage } = {}
+): Promise<AIEvaluationResponse> {
+  const prompt = await renderPrompt(
+    'evaluation',
+    { withRubric: Boolean(question.rubric), withSpeechMetrics: Boolean(speechMetrics) },
+    promptRef
+  );
+  const sampleInput: EvaluationInput = { question, transcription, roleTitle, seniorityLevel, speechMetrics, language };
+
+  // Each sample's overall score is recomputed before aggregation, so the
+  // reported score and its spread come from the same numbers
+  const scoreSample = async (sample: number): Promise<AIEvaluationResponse> => {
+    const result = await evaluateResponseSample(sampleInput, prompt.content, sample);
+    return { ...result, overallScore: computeOverallScore(result.scores, question.category) };
+  };
+
+  const evaluation = samples > 1
+    ? aggregateEvaluationSamples(await Promise.all(Array.from({ length: samples }, (_, sample) => scoreSample(sample))))
+    : await scoreSample(0);
+
+  return {
+    ...evaluation,
+    weightProfileVersion: CURRENT_WEIGHT_PROFILE_VERSION,
+    promptVersion: prompt.ref,
+    model: getAIProvider().model,
+  };
+}
+
+async function evaluateResponseSample(
+  input: EvaluationInput,
+  systemPrompt: string,
+  sample: number
 ): Promise<AIEvaluationResponse> {
-  const client = getOpenAIClient();
-  const deployment = getDeploymentName();
+  const { question, transcription, roleTitle, seniorityLevel, speechMetrics, language } = input;
+  const { rubric } = question;
+
+  const rubricSection = rubric
+    ? `
+REFERENCE ANSWER:
+${question.referenceAnswer ?? 'Not provided'}
+
+RUBRIC - MUST MENTION:
+${rubric.mustMention.map((point) => `- ${point}`).join('\n')}
 
-  const systemPrompt = getEvaluationPrompt();
+RUBRIC - RED FLAGS:
+${rubric.redFlags.length > 0 ? rubric.redFlags.map((flag) => `- ${flag}`).join('\n') : 'None'}
+`
+    : '';
 
   const userPrompt = `
 CONTEXT:
@@ -243,109 +438,130 @@ CONTEXT:
 - Question Category: ${question.category}
 - Question Difficulty: ${question.difficulty}
 
+EXPECTATIONS FOR A ${seniorityLevel.toUpperCase()} CANDIDATE:
+${getSeniorityExpectations(seniorityLevel)}
+
 QUESTION:
 ${question.question}
 
 EXPECTED TOPICS:
 ${question.expectedTopics.join(', ')}
-
+${rubricSection}
 CANDIDATE RESPONSE (Transcribed from speech):
 ${transcription}
-
+${speechMetrics ? `\nSPEECH DELIVERY (measured from the recording):\n${describeSpeechMetrics(speechMetrics)}\n` : ''}
 Evaluate this response according to the scoring criteria.
-`;
-
-  const response = await client.chat.completions.create({
-    model: deployment,
-    response_format: { type: 'json_object' },
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ],
-    temperature: 0.3, // Lower temperature for more consistent evaluations
-    max_tokens: 2000,
-  });
-
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error('No response content from Azure OpenAI');
-  }
-
-  try {
-    const parsed = JSON.parse(content) as AIEvaluationResponse;
-    
-    // Validate response structure
-    if (!parsed.scores || typeof parsed.overallScore !== 'number' || !parsed.feedback) {
-      throw new Error('Invalid evaluation response structure');
-    }
-
-    // Validate score ranges
-    validateScores(parsed.scores);
+${getOutputLanguageRules(language)}`;
+
+  const evaluation = await completeStructured(
+    {
+      context: { task: 'evaluation', ...input, sample },
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      temperature: 0.3, // Lower temperature for more consistent evaluations
+      maxTokens: 2000,
+    },
+    evaluationSchema,
+    'evaluation'
+  );
 
-    return parsed;
-  } catch (error) {
-    console.error('Failed to parse evaluation response:', content);
-    throw new Error(`Failed to parse evaluation response: ${error}`);
-  }
+  return {
+    ...evaluation,
+    overallScore: computeOverallScore(evaluation.scores, question.category),
+    rubric: rubric ? reconcileRubricResult(rubric, evaluation.rubric) : undefined,
+  };
 }
 
 // =========================================================================
-// Helpers
+// Adaptive Follow-Up
 // =========================================================================
 
 /**
- * Validate that all scores are within valid range (0-100)
+ * Decide whether a candidate's answer warrants a probing follow-up question,
+ * asked in the interview `language`
  */
-function validateScores(scores: EvaluationScores): void {
-  const scoreFields: (keyof EvaluationScores)[] = [
-    'relevance',
-    'technicalAccuracy',
-    'clarity',
-    'depth',
-    'structure',
-    'confidence',
-  ];
-
-  for (const field of scoreFields) {
-    const score = scores[field];
-    if (typeof score !== 'number' || score < 0 || score > 100) {
-      throw new Error(`Invalid score for ${field}: ${score}`);
-    }
-  }
+export async function generateFollowUpQuestion(
+  question: EvaluationQuestionInput,
+  transcription: string,
+  roleTitle: string,
+  seniorityLevel: SeniorityLevel,
+  language: InterviewLanguage = DEFAULT_LANGUAGE
+): Promise<AIFollowUpResponse> {
+  const systemPrompt = getFollowUpPrompt();
+
+  const userPrompt = `
+CONTEXT:
+- Role: ${roleTitle}
+- Expected Seniority: ${seniorityLevel}
+- Question Category: ${question.category}
+
+ORIGINAL QUESTION:
+${question.question}
+
+EXPECTED TOPICS:
+${question.expectedTopics.join(', ')}
+
+CANDIDATE RESPONSE (Transcribed from speech):
+${transcription}
+
+Decide whether a follow-up question is warranted.
+${getOutputLanguageRules(language)}`;
+
+  return completeStructured(
+    {
+      context: { task: 'follow-up', question, transcription, roleTitle, seniorityLevel },
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+      temperature: 0.5,
+      maxTokens: 800,
+    },
+    followUpSchema,
+    'follow-up'
+  );
 }
 
+// =========================================================================
+// Seniority Inference
+// =========================================================================
+
 /**
- * Extract seniority level from role title
+ * Ask the model for the seniority level when title and description rules
+ * are inconclusive (see seniority.ts)
  */
-export function extractSeniorityFromRole(roleTitle: string): SeniorityLevel {
-  const lowerTitle = roleTitle.toLowerCase();
-  
-  // Check for senior indicators
-  if (
-    lowerTitle.includes('senior') ||
-    lowerTitle.includes('sr.') ||
-    lowerTitle.includes('sr ') ||
-    lowerTitle.includes('lead') ||
-    lowerTitle.includes('principal') ||
-    lowerTitle.includes('staff') ||
-    lowerTitle.includes('architect')
-  ) {
-    return 'senior';
-  }
-  
-  // Check for junior indicators
-  if (
-    lowerTitle.includes('junior') ||
-    lowerTitle.includes('jr.') ||
-    lowerTitle.includes('jr ') ||
-    lowerTitle.includes('entry') ||
-    lowerTitle.includes('associate') ||
-    lowerTitle.includes('trainee') ||
-    lowerTitle.includes('intern')
-  ) {
-    return 'junior';
-  }
-  
-  // Default to mid-level
-  return 'mid';
+export async function inferSeniorityWithModel(
+  roleTitle: string,
+  jobDescription: string,
+  ruleBased: SeniorityInference
+): Promise<AISeniorityResponse> {
+  const userPrompt = `
+Role Title: ${roleTitle}
+
+Job Description:
+${jobDescription || 'Not provided'}
+
+KEYWORD-BASED FIRST PASS:
+- Level: ${ruleBased.level}
+- Confidence: ${ruleBased.confidence}
+- Rationale: ${ruleBased.rationale}
+
+Decide the seniority level this posting is hiring for.
+`;
+
+  return completeStructured(
+    {
+      context: { task: 'seniority-inference', roleTitle, jobDescription, ruleBased },
+      messages: [
+        { role: 'system', content: getSeniorityInferencePrompt() },
+        { role: 'user', content: userPrompt },
+      ],
+      temperature: 0.2,
+      maxTokens: 500,
+    },
+    senioritySchema,
+    'seniority inference'
+  );
 }
@@ -0,0 +1,200 @@
+// =========================================================================
+// AI Tech Interview - Batch Evaluator
+// Evaluates a session's responses with bounded concurrency, retrying
+// rate-limited (429) and server (5xx) errors with exponential backoff.
+// Failures are reported per question instead of being dropped.
+// =========================================================================
+
+import { prisma } from './prisma';
+import { evaluateAndSaveResponse, getCurrentEvaluation } from './evaluations';
+import type { SessionForEvaluation, QuestionForEvaluation, ResponseForEvaluation } from './evaluations';
+import { getPerformanceBand } from '@/types/interview';
+import type { ResponseEvaluation as ResponseEvaluationRecord } from '@/generated/prisma/client';
+import type { EvaluationRunSummary } from '@/types/api';
+
+// =========================================================================
+// Configuration
+// =========================================================================
+
+const DEFAULT_CONCURRENCY = 3;
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 15000;
+
+/**
+ * Number of evaluations to run in parallel (`EVALUATION_CONCURRENCY`, default 3)
+ */
+export function getEvaluationConcurrency(): number {
+  const value = Number.parseInt(process.env.EVALUATION_CONCURRENCY ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_CONCURRENCY;
+}
+
+// =========================================================================
+// Types
+// =========================================================================
+
+export interface BatchEvaluationResult {
+  question: QuestionForEvaluation;
+  responseId: string;
+  evaluation: ResponseEvaluationRecord;
+}
+
+export interface BatchEvaluationFailure {
+  question: QuestionForEvaluation;
+  responseId: string;
+  message: string;
+}
+
+export interface BatchEvaluationOptions {
+  /** Only evaluate these responses (e.g. retrying previous failures) */
+  responseIds?: string[];
+  concurrency?: number;
+  /** Stop starting new evaluations once aborted */
+  signal?: AbortSignal;
+  onResult?: (result: BatchEvaluationResult) => void;
+  onFailure?: (failure: BatchEvaluationFailure) => void;
+}
+
+export interface BatchEvaluationOutcome {
+  results: BatchEvaluationResult[];
+  failures: BatchEvaluationFailure[];
+  summary: EvaluationRunSummary;
+  aborted: boolean;
+}
+
+// =========================================================================
+// Retry Helpers
+// =========================================================================
+
+/**
+ * Provider errors worth retrying: rate limits and server-side failures.
+ * The OpenAI SDK (used by the Azure and OpenAI-compatible providers)
+ * exposes the HTTP status as `status`.
+ */
+function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+}
+
+function getRetryDelay(attempt: number): number {
+  const exponential = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  const jitter = Math.random() * BASE_RETRY_DELAY_MS;
+  return Math.min(exponential + jitter, MAX_RETRY_DELAY_MS);
+}
+
+async function withRetry<T>(label: string, fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isRetryableError(error)) {
+        throw error;
+      }
+      const delay = getRetryDelay(attempt);
+      console.warn(`${label}: retryable provider error, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// =========================================================================
+// Batch Evaluation
+// =========================================================================
+
+/**
+ * Evaluate every answered, unevaluated response in a session.
+ * Existing evaluations are reported as results without calling the AI.
+ * Updates the session status to `completed` when every answered question
+ * has an evaluation, otherwise `partially-evaluated`.
+ */
+export async function runBatchEvaluation(
+  session: SessionForEvaluation,
+  options: BatchEvaluationOptions = {}
+): Promise<BatchEvaluationOutcome> {
+  const { responseIds, signal, onResult, onFailure } = options;
+  const concurrency = options.concurrency ?? getEvaluationConcurrency();
+  const targetIds = responseIds ? new Set(responseIds) : null;
+
+  const results: BatchEvaluationResult[] = [];
+  const failures: BatchEvaluationFailure[] = [];
+  const pending: Array<{ question: QuestionForEvaluation; response: ResponseForEvaluation }> = [];
+
+  for (const question of session.questions) {
+    const response = question.responses[0];
+    if (!response) continue;
+
+    const current = getCurrentEvaluation(response);
+    if (current) {
+      const result = { question, responseId: response.id, evaluation: current };
+      results.push(result);
+      onResult?.(result);
+    } else if (!targetIds || targetIds.has(response.id)) {
+      pending.push({ question, response });
+    }
+  }
+
+  console.log(
+    `Evaluating ${pending.length} responses for session ${session.id} (concurrency: ${concurrency})`
+  );
+
+  // Worker pool: each worker pulls the next pending response until none remain
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < pending.length && !signal?.aborted) {
+      const { question, response } = pending[nextIndex++];
+      try {
+        const evaluation = await withRetry(`Response ${response.id}`, () =>
+          evaluateAndSaveResponse(session, question, response)
+        );
+        const result = { question, responseId: response.id, evaluation };
+        results.push(result);
+        onResult?.(result);
+      } catch (error) {
+        console.error(`Failed to evaluate response ${response.id}:`, error);
+        const failure = {
+          question,
+          responseId: response.id,
+          message: error instanceof Error ? error.message : 'Failed to evaluate response',
+        };
+        failures.push(failure);
+        onFailure?.(failure);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+
+  results.sort((a, b) => a.question.questionNumber - b.question.questionNumber);
+  failures.sort((a, b) => a.question.questionNumber - b.question.questionNumber);
+
+  const totalScore = results.reduce((sum, r) => sum + r.evaluation.overallScore, 0);
+  const averageScore = results.length > 0 ? Math.round(totalScore / results.length) : 0;
+  const answeredCount = session.questions.filter((q) => q.responses.length > 0).length;
+  const aborted = Boolean(signal?.aborted);
+
+  if (!aborted) {
+    const status = results.length === answeredCount ? 'completed' : 'partially-evaluated';
+    await prisma.interviewSession.update({
+      where: { id: session.id },
+      data: { status },
+    });
+  }
+
+  console.log(
+    `Batch evaluation for session ${session.id}: ${results.length}/${answeredCount} evaluated, ` +
+      `${failures.length} failed, average score: ${averageScore}%`
+  );
+
+  return {
+    results,
+    failures,
+    summary: {
+      sessionId: session.id,
+      totalResponses: session.questions.length,
+      evaluatedResponses: results.length,
+      averageScore,
+      performanceBand: getPerformanceBand(averageScore),
+    },
+    aborted,
+  };
+}
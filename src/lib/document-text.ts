@@ -0,0 +1,263 @@
+// =========================================================================
+// AI Tech Interview - Document Text Extraction
+// Turns uploaded PDF, DOCX, HTML and Markdown files into clean plain text.
+// Used for job posting and resume uploads (job-posting.ts, resume.ts).
+// =========================================================================
+
+import mammoth from 'mammoth';
+import { extractText, getDocumentProxy } from 'unpdf';
+import type { ApiError, DocumentFormat } from '@/types/api';
+
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// =========================================================================
+// Format Detection
+// =========================================================================
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  md: 'markdown',
+  markdown: 'markdown',
+};
+
+const FORMATS_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+};
+
+/**
+ * Format of an uploaded file from its extension, then its MIME type.
+ * Returns null for unsupported files.
+ */
+export function detectDocumentFormat(fileName: string, mimeType: string): DocumentFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return FORMATS_BY_EXTENSION[extension] ?? FORMATS_BY_MIME_TYPE[mimeType.split(';')[0].trim()] ?? null;
+}
+
+// =========================================================================
+// Text Cleanup
+// =========================================================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  bull: '•',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Trim lines, drop control characters and collapse runs of blank lines
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u00ad]/g, '')
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const SKIPPED_BLOCK_START = /<(script|style|noscript|template|svg|head|nav|footer)\b|<!--/gi;
+
+/**
+ * Remove comments and elements without readable text in one pass. Each
+ * closing tag is searched for once; an element that is never closed is
+ * kept, and later ones of the same name are not searched for again.
+ */
+function removeSkippedBlocks(html: string): string {
+  const lower = html.toLowerCase();
+  const unclosed = new Set<string>();
+  const start = new RegExp(SKIPPED_BLOCK_START);
+  let text = '';
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = start.exec(html))) {
+    const closing = match[1] ? `</${match[1].toLowerCase()}>` : '-->';
+    const end = unclosed.has(closing) ? -1 : lower.indexOf(closing, start.lastIndex);
+    if (end === -1) {
+      unclosed.add(closing);
+      continue;
+    }
+    text += html.slice(position, match.index);
+    position = end + closing.length;
+    start.lastIndex = position;
+  }
+  return text + html.slice(position);
+}
+
+export function htmlToText(html: string): string {
+  // Tag patterns stop at the next "<" so stray ones do not rescan the input
+  const text = removeSkippedBlocks(html)
+    .replace(/<li\b[^<>]*>/gi, '\n- ')
+    .replace(/<(br|\/tr)\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|main|aside|header|h[1-6]|ul|ol|table|blockquote)\b[^<>]*>/gi, '\n\n')
+    .replace(/<[^<>]+>/g, '');
+  return normalizeText(decodeEntities(text));
+}
+
+export function markdownToText(markdown: string): string {
+  const text = markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // front matter
+    .replace(/<[^<>]+>/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*[*+]\s+/gm, '- ')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, '$1$2')
+    .replace(/`{1,3}([^`]*)`{1,3}/g, '$1');
+  return normalizeText(decodeEntities(text));
+}
+
+/**
+ * Cut text at `maxChars`, reporting whether anything was dropped
+ */
+export function truncateText(text: string, maxChars: number): { text: string; truncated: boolean } {
+  return text.length > maxChars
+    ? { text: text.slice(0, maxChars).trimEnd(), truncated: true }
+    : { text, truncated: false };
+}
+
+// =========================================================================
+// Extraction
+// =========================================================================
+
+/**
+ * Extract the plain text of a document. For HTML only the body is used.
+ * Throws when the file cannot be parsed or contains no text (e.g. a
+ * scanned PDF without a text layer).
+ */
+export async function extractDocumentText(buffer: Buffer, format: DocumentFormat): Promise<string> {
+  let text: string;
+  switch (format) {
+    case 'pdf': {
+      const pdf = await getDocumentProxy(new Uint8Array(buffer));
+      text = normalizeText((await extractText(pdf, { mergePages: true })).text);
+      break;
+    }
+    case 'docx':
+      text = normalizeText((await mammoth.extractRawText({ buffer })).value);
+      break;
+    case 'html':
+      text = htmlToText(buffer.toString('utf8').replace(/^[\s\S]*?<body\b[^>]*>/i, ''));
+      break;
+    case 'markdown':
+      text = markdownToText(buffer.toString('utf8'));
+      break;
+  }
+
+  if (!text) {
+    throw new Error(`No text found in the ${format} file`);
+  }
+  return text;
+}
+
+// =========================================================================
+// Uploads
+// =========================================================================
+
+/**
+ * An uploaded document and what its extractor returned, or the error
+ * (with HTTP status) to respond with
+ */
+export type DocumentUploadResult<T> =
+  | { success: true; fileName: string; format: DocumentFormat; extracted: T }
+  | { success: false; status: number; error: ApiError };
+
+/**
+ * Read the `file` field of a multipart/form-data request and run an
+ * extractor on it. `label` names the document in messages ("resume");
+ * `fallback` is what the user can paste instead ("the resume text").
+ */
+export async function extractUploadedDocument<T extends { text: string; truncated: boolean }>(
+  request: Request,
+  { label, fallback }: { label: string; fallback: string },
+  extract: (buffer: Buffer, format: DocumentFormat) => Promise<T>
+): Promise<DocumentUploadResult<T>> {
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get('file');
+
+  if (!(file instanceof File)) {
+    return {
+      success: false,
+      status: 400,
+      error: {
+        code: 'MISSING_FILE',
+        message: `Upload the ${label} as multipart/form-data in a "file" field`,
+      },
+    };
+  }
+
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return {
+      success: false,
+      status: 413,
+      error: {
+        code: 'FILE_TOO_LARGE',
+        message: `File must be at most ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`,
+      },
+    };
+  }
+
+  const format = detectDocumentFormat(file.name, file.type);
+  if (!format) {
+    return {
+      success: false,
+      status: 415,
+      error: {
+        code: 'UNSUPPORTED_FILE_TYPE',
+        message: 'Supported formats: PDF, DOCX, HTML and Markdown',
+      },
+    };
+  }
+
+  let extracted: T;
+  try {
+    extracted = await extract(Buffer.from(await file.arrayBuffer()), format);
+  } catch (error) {
+    console.error(`Error extracting ${format} ${label}:`, error);
+
+    return {
+      success: false,
+      status: 422,
+      error: {
+        code: 'EXTRACTION_FAILED',
+        message: `Could not read text from this ${format.toUpperCase()} file. Paste ${fallback} instead.`,
+      },
+    };
+  }
+
+  console.log(
+    `Extracted ${extracted.text.length} ${label} characters from ${file.name} (${format})` +
+      (extracted.truncated ? ', truncated' : '')
+  );
+
+  return { success: true, fileName: file.name, format, extracted };
+}
@@ -0,0 +1,78 @@
+// =========================================================================
+// AI Tech Interview - Evaluation Consistency Mode
+// Samples the evaluator several times and aggregates each score dimension
+// by median, keeping the min/max spread so evaluator noise is visible.
+// =========================================================================
+
+import type { AIEvaluationResponse } from '@/types/api';
+import type { EvaluationScores, ScoreRange, ScoreSpread } from '@/types/interview';
+
+const MAX_SAMPLES = 7;
+
+const SCORE_DIMENSIONS: readonly (keyof EvaluationScores)[] = [
+  'relevance',
+  'technicalAccuracy',
+  'clarity',
+  'depth',
+  'structure',
+  'confidence',
+];
+
+/**
+ * Number of evaluator samples per response (`EVALUATION_SAMPLES`, default 1).
+ * Values above 1 enable consistency mode; capped at MAX_SAMPLES.
+ */
+export function getEvaluationSampleCount(): number {
+  const value = Number.parseInt(process.env.EVALUATION_SAMPLES ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? Math.min(value, MAX_SAMPLES) : 1;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function range(values: number[]): ScoreRange {
+  return { min: Math.min(...values), max: Math.max(...values) };
+}
+
+/**
+ * Aggregate evaluator samples into one evaluation. Scores are per-dimension
+ * medians and the overall score is the median of the samples' overall
+ * scores, so it always lies within its reported range; feedback and rubric
+ * come from the sample closest to that median so the text matches it.
+ */
+export function aggregateEvaluationSamples(samples: AIEvaluationResponse[]): AIEvaluationResponse {
+  if (samples.length === 0) {
+    throw new Error('Cannot aggregate zero evaluation samples');
+  }
+
+  const overallScores = samples.map((s) => s.overallScore);
+  const overallScore = median(overallScores);
+
+  const scores = {} as EvaluationScores;
+  const scoreSpread = { overall: range(overallScores) } as ScoreSpread;
+  for (const dimension of SCORE_DIMENSIONS) {
+    const values = samples.map((s) => s.scores[dimension]);
+    scores[dimension] = median(values);
+    scoreSpread[dimension] = range(values);
+  }
+
+  const representative = samples.reduce((closest, sample) =>
+    Math.abs(sample.overallScore - overallScore) < Math.abs(closest.overallScore - overallScore)
+      ? sample
+      : closest
+  );
+
+  return {
+    scores,
+    overallScore,
+    feedback: representative.feedback,
+    rubric: representative.rubric,
+    sampleCount: samples.length,
+    scoreSpread,
+  };
+}
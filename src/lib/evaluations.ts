@@ -0,0 +1,274 @@
+// =========================================================================
+// AI Tech Interview - Evaluation Persistence
+// Shared evaluate-and-save logic used by the batch and streaming routes
+// =========================================================================
+
+import { prisma, retryOnUniqueConstraint } from './prisma';
+import { evaluateResponse } from './azure-openai';
+import { getAssignedPromptRef } from './prompt-registry';
+import { getSpeechMetrics } from './speech-metrics';
+import { toInterviewLanguage } from './languages';
+import { getPerformanceBand } from '@/types/interview';
+import type {
+  Prisma,
+  InterviewQuestion as InterviewQuestionRecord,
+  InterviewSession as InterviewSessionRecord,
+  QuestionResponse as QuestionResponseRecord,
+  ResponseEvaluation as ResponseEvaluationRecord,
+} from '@/generated/prisma/client';
+import type { AIEvaluationResponse, EvaluationQuestionInput } from '@/types/api';
+import type {
+  ResponseEvaluation,
+  PerformanceBand,
+  QuestionCategory,
+  RubricResult,
+  ScoreSpread,
+  QuestionDifficulty,
+  SeniorityLevel,
+} from '@/types/interview';
+
+/**
+ * Prisma include selecting only the current evaluation of a response.
+ * Older versions stay in the table for comparison.
+ */
+export const CURRENT_EVALUATION = {
+  where: { isCurrent: true },
+  orderBy: { version: 'desc' as const },
+  take: 1,
+};
+
+/**
+ * Current evaluation of a response loaded with `CURRENT_EVALUATION`
+ */
+export function getCurrentEvaluation<T>(response: { evaluations: T[] }): T | undefined {
+  return response.evaluations[0];
+}
+
+/**
+ * Load a session with its questions, responses and current evaluations
+ */
+export async function loadSessionForEvaluation(sessionId: string) {
+  return prisma.interviewSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      questions: {
+        include: {
+          topic: true,
+          responses: {
+            include: {
+              evaluations: CURRENT_EVALUATION,
+            },
+          },
+        },
+        orderBy: { questionNumber: 'asc' },
+      },
+    },
+  });
+}
+
+export type SessionForEvaluation = NonNullable<Awaited<ReturnType<typeof loadSessionForEvaluation>>>;
+export type QuestionForEvaluation = SessionForEvaluation['questions'][number];
+export type ResponseForEvaluation = QuestionForEvaluation['responses'][number];
+
+/**
+ * Build the evaluation input for a question, including its rubric when it has one
+ */
+export function toEvaluationQuestionInput(question: InterviewQuestionRecord): EvaluationQuestionInput {
+  return {
+    question: question.question,
+    category: question.category as QuestionCategory,
+    difficulty: question.difficulty as QuestionDifficulty,
+    expectedTopics: question.expectedTopics,
+    referenceAnswer: question.referenceAnswer ?? undefined,
+    rubric: question.rubricMustMention.length > 0
+      ? { mustMention: question.rubricMustMention, redFlags: question.rubricRedFlags }
+      : undefined,
+  };
+}
+
+/**
+ * Score, feedback, rubric and consistency columns to persist for an AI evaluation
+ */
+export function toEvaluationColumns(aiEvaluation: AIEvaluationResponse) {
+  return {
+    relevanceScore: aiEvaluation.scores.relevance,
+    technicalAccuracyScore: aiEvaluation.scores.technicalAccuracy,
+    clarityScore: aiEvaluation.scores.clarity,
+    depthScore: aiEvaluation.scores.depth,
+    structureScore: aiEvaluation.scores.structure,
+    confidenceScore: aiEvaluation.scores.confidence,
+    overallScore: aiEvaluation.overallScore,
+    weightProfileVersion: aiEvaluation.weightProfileVersion,
+    performanceBand: getPerformanceBand(aiEvaluation.overallScore),
+    strengths: aiEvaluation.feedback.strengths,
+    improvements: aiEvaluation.feedback.improvements,
+    suggestion: aiEvaluation.feedback.suggestion,
+    rubricHits: aiEvaluation.rubric?.hits ?? [],
+    rubricMisses: aiEvaluation.rubric?.misses ?? [],
+    redFlagsRaised: aiEvaluation.rubric?.redFlags ?? [],
+    promptVersion: aiEvaluation.promptVersion,
+    model: aiEvaluation.model,
+    sampleCount: aiEvaluation.sampleCount ?? 1,
+    scoreSpread: aiEvaluation.scoreSpread,
+  };
+}
+
+/**
+ * Lock a response row until the transaction ends, so writers that change
+ * which of its evaluations is current run one after another and never
+ * leave two current rows
+ */
+async function lockResponse(tx: Prisma.TransactionClient, responseId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM question_responses WHERE id = ${responseId} FOR UPDATE`;
+}
+
+/**
+ * Save an evaluation as the next version for its response and make it the
+ * current one. The first evaluation of a response is version 1. Saves are
+ * serialized on the response row; one that still collides on the
+ * (responseId, version) unique index retries with the next version.
+ */
+export async function saveEvaluationVersion(
+  ids: { responseId: string; questionId: string; sessionId: string },
+  aiEvaluation: AIEvaluationResponse
+): Promise<ResponseEvaluationRecord> {
+  return retryOnUniqueConstraint(`Evaluation of response ${ids.responseId}`, () =>
+    prisma.$transaction(async (tx) => {
+      await lockResponse(tx, ids.responseId);
+
+      const latest = await tx.responseEvaluation.findFirst({
+        where: { responseId: ids.responseId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      await tx.responseEvaluation.updateMany({
+        where: { responseId: ids.responseId, isCurrent: true },
+        data: { isCurrent: false },
+      });
+
+      return tx.responseEvaluation.create({
+        data: {
+          ...ids,
+          ...toEvaluationColumns(aiEvaluation),
+          version: (latest?.version ?? 0) + 1,
+          isCurrent: true,
+        },
+      });
+    })
+  );
+}
+
+/**
+ * Make an existing evaluation version the current one for its response
+ */
+export async function setCurrentEvaluation(
+  responseId: string,
+  evaluationId: string
+): Promise<ResponseEvaluationRecord> {
+  return prisma.$transaction(async (tx) => {
+    await lockResponse(tx, responseId);
+
+    await tx.responseEvaluation.updateMany({
+      where: { responseId, isCurrent: true },
+      data: { isCurrent: false },
+    });
+
+    return tx.responseEvaluation.update({
+      where: { id: evaluationId },
+      data: { isCurrent: true },
+    });
+  });
+}
+
+/**
+ * Evaluate a response with the AI provider and persist the result.
+ * Returns the current evaluation when the response was already scored,
+ * unless `force` is set, which re-scores it as a new version.
+ */
+export async function evaluateAndSaveResponse(
+  session: Pick<InterviewSessionRecord, 'id' | 'roleTitle' | 'seniorityLevel' | 'language' | 'promptVersions'>,
+  question: InterviewQuestionRecord,
+  response: QuestionResponseRecord & { evaluations: ResponseEvaluationRecord[] },
+  { force = false }: { force?: boolean } = {}
+): Promise<ResponseEvaluationRecord> {
+  const current = getCurrentEvaluation(response);
+  if (current && !force) {
+    console.log(`Using cached evaluation for response ${response.id}`);
+    return current;
+  }
+
+  console.log(`Evaluating response ${response.id} for question ${question.questionNumber}`);
+
+  const language = toInterviewLanguage(session.language);
+  const aiEvaluation = await evaluateResponse(
+    toEvaluationQuestionInput(question),
+    response.transcription || '',
+    session.roleTitle,
+    session.seniorityLevel as SeniorityLevel,
+    {
+      promptRef: getAssignedPromptRef(session.promptVersions, 'evaluation'),
+      speechMetrics: getSpeechMetrics({ ...response, language }),
+      language,
+    }
+  );
+
+  const evaluation = await saveEvaluationVersion(
+    { responseId: response.id, questionId: question.id, sessionId: session.id },
+    aiEvaluation
+  );
+
+  console.log(
+    `Evaluation v${evaluation.version} saved for response ${response.id}: ${evaluation.overallScore}%`
+  );
+
+  return evaluation;
+}
+
+/**
+ * Rubric result stored on an evaluation, if the question had a rubric
+ */
+export function toRubricResult(
+  record: Pick<ResponseEvaluationRecord, 'rubricHits' | 'rubricMisses' | 'redFlagsRaised'>
+): RubricResult | undefined {
+  if (record.rubricHits.length === 0 && record.rubricMisses.length === 0) {
+    return undefined;
+  }
+  return { hits: record.rubricHits, misses: record.rubricMisses, redFlags: record.redFlagsRaised };
+}
+
+/**
+ * Convert a database evaluation row to the API `ResponseEvaluation` shape
+ */
+export function toResponseEvaluation(record: ResponseEvaluationRecord): ResponseEvaluation {
+  return {
+    id: record.id,
+    responseId: record.responseId,
+    questionId: record.questionId,
+    sessionId: record.sessionId,
+    scores: {
+      relevance: record.relevanceScore,
+      technicalAccuracy: record.technicalAccuracyScore,
+      clarity: record.clarityScore,
+      depth: record.depthScore,
+      structure: record.structureScore,
+      confidence: record.confidenceScore,
+    },
+    overallScore: record.overallScore,
+    feedback: {
+      strengths: record.strengths,
+      improvements: record.improvements,
+      suggestion: record.suggestion,
+    },
+    performanceBand: record.performanceBand as PerformanceBand,
+    rubricResult: toRubricResult(record),
+    sampleCount: record.sampleCount,
+    scoreSpread: (record.scoreSpread as ScoreSpread | null) ?? undefined,
+    weightProfileVersion: record.weightProfileVersion ?? undefined,
+    version: record.version,
+    isCurrent: record.isCurrent,
+    promptVersion: record.promptVersion ?? undefined,
+    model: record.model ?? undefined,
+    evaluatedAt: record.evaluatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,150 @@
+// =========================================================================
+// AI Tech Interview - Job Posting Import
+// Extracts the text of uploaded job postings (see document-text.ts) and
+// detects the role title and company where the posting states them, so
+// the session form can be pre-filled.
+// =========================================================================
+
+import { decodeEntities, extractDocumentText, htmlToText, markdownToText, truncateText } from './document-text';
+import type { DocumentFormat } from '@/types/api';
+
+/**
+ * Extracted text beyond this is cut off; longer postings are mostly
+ * boilerplate (benefits, legal notices) that does not help generation
+ */
+const MAX_EXTRACTED_CHARS = 20000;
+
+export interface ExtractedJobPosting {
+  format: DocumentFormat;
+  text: string;
+  roleTitle?: string;
+  companyName?: string;
+  truncated: boolean;
+}
+
+interface PostingDetails {
+  text: string;
+  roleTitle?: string;
+  companyName?: string;
+}
+
+// =========================================================================
+// Title & Company Detection
+// =========================================================================
+
+// Whole words only (plurals allowed), so "International" or "Leading" do not count
+const ROLE_WORDS =
+  /(?<!\p{L})(?:engineer|developer|architect|programmer|manager|analyst|designer|scientist|consultant|specialist|administrator|devops|sre|lead|intern|desarrollador|ingenier[oa]|programador|analista|entwickler)s?(?!\p{L})/iu;
+
+const LABELLED_TITLE = /^(?:job title|position|role|title|puesto|cargo|vaga)\s*:\s*(.{3,100})$/im;
+const LABELLED_COMPANY = /^(?:company|employer|organi[sz]ation|empresa|unternehmen)\s*:\s*(.{2,80})$/im;
+const ABOUT_COMPANY = /^about\s+(?!the (?:role|job|position|team)|you|us)(.{2,60}?)[:.]?$/im;
+const TITLE_AT_COMPANY = /^(.{3,80}?)\s+(?:at|@|-|–|—|\|)\s+(.{2,60})$/;
+
+function clean(value: string | undefined): string | undefined {
+  const trimmed = value?.replace(/\s+/g, ' ').replace(/^[-–—|:\s]+|[-–—|:\s]+$/g, '').trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Detect the role title and company from labelled lines ("Job Title: ..."),
+ * a first line that reads like a role, "<Role> at <Company>" and
+ * "About <Company>" headings
+ */
+function detectDetails(text: string, hint?: string): Omit<PostingDetails, 'text'> {
+  let roleTitle = clean(LABELLED_TITLE.exec(text)?.[1]);
+  let companyName = clean(LABELLED_COMPANY.exec(text)?.[1]);
+
+  const candidates = [hint, ...text.split('\n').slice(0, 5)].filter(
+    (line): line is string => !!line && line.length <= 120
+  );
+  for (const line of candidates) {
+    if (roleTitle && companyName) break;
+    const split = TITLE_AT_COMPANY.exec(line);
+    if (split && ROLE_WORDS.test(split[1])) {
+      roleTitle ??= clean(split[1]);
+      // Page titles often end with the site: "Role at Company | Careers"
+      companyName ??= clean(split[2].split(/\s[|–—-]\s/)[0]);
+    } else if (!roleTitle && ROLE_WORDS.test(line) && line.length <= 100) {
+      roleTitle = clean(line);
+    }
+  }
+
+  companyName ??= clean(ABOUT_COMPANY.exec(text)?.[1]);
+  return { roleTitle, companyName };
+}
+
+/**
+ * schema.org JobPosting data embedded by most job boards. Its description
+ * is usually cleaner than the page text around it.
+ */
+function findJobPostingData(html: string): PostingDetails | null {
+  const scripts = html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+
+  for (const [, json] of scripts) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      continue;
+    }
+
+    const nodes = [data, ...((data as { '@graph'?: unknown[] })?.['@graph'] ?? [])].flat();
+    const posting = nodes.find(
+      (node): node is Record<string, unknown> =>
+        typeof node === 'object' && node !== null && (node as Record<string, unknown>)['@type'] === 'JobPosting'
+    );
+    if (!posting || typeof posting.description !== 'string') {
+      continue;
+    }
+
+    const organization = posting.hiringOrganization as { name?: unknown } | undefined;
+    return {
+      // Some boards HTML-escape the description markup itself
+      text: htmlToText(/&lt;\/?[a-z]/i.test(posting.description) ? decodeEntities(posting.description) : posting.description),
+      roleTitle: typeof posting.title === 'string' ? clean(decodeEntities(posting.title)) : undefined,
+      companyName: typeof organization?.name === 'string' ? clean(decodeEntities(organization.name)) : undefined,
+    };
+  }
+  return null;
+}
+
+function getMetaContent(html: string, property: string): string | undefined {
+  const tag = new RegExp(`<meta[^>]+(?:property|name)=["']${property}["'][^>]*>`, 'i').exec(html)?.[0];
+  const content = tag && /content=["']([^"']*)["']/i.exec(tag)?.[1];
+  return content ? decodeEntities(content) : undefined;
+}
+
+// =========================================================================
+// Extraction
+// =========================================================================
+
+async function extractDetails(buffer: Buffer, format: DocumentFormat): Promise<PostingDetails> {
+  if (format === 'html') {
+    const html = buffer.toString('utf8');
+    const siteName = clean(getMetaContent(html, 'og:site_name'));
+    const structured = findJobPostingData(html);
+    if (structured?.text) {
+      return { ...structured, companyName: structured.companyName ?? siteName };
+    }
+
+    const text = await extractDocumentText(buffer, format);
+    const pageTitle = getMetaContent(html, 'og:title') ?? /<title[^>]*>([^<]*)<\/title>/i.exec(html)?.[1];
+    const details = detectDetails(text, pageTitle ? decodeEntities(pageTitle).trim() : undefined);
+    return { text, roleTitle: details.roleTitle, companyName: details.companyName ?? siteName };
+  }
+
+  const text = await extractDocumentText(buffer, format);
+  // The first Markdown heading is usually the role
+  const heading = format === 'markdown' ? /^#\s+(.+)$/m.exec(buffer.toString('utf8'))?.[1] : undefined;
+  return { text, ...detectDetails(text, heading ? markdownToText(heading) : undefined) };
+}
+
+/**
+ * Extract the text of a job posting, plus its role title and company where
+ * detectable. Throws when the file cannot be parsed or contains no text.
+ */
+export async function extractJobPosting(buffer: Buffer, format: DocumentFormat): Promise<ExtractedJobPosting> {
+  const { text, roleTitle, companyName } = await extractDetails(buffer, format);
+  return { format, roleTitle, companyName, ...truncateText(text, MAX_EXTRACTED_CHARS) };
+}
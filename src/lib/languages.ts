@@ -0,0 +1,32 @@
+// =========================================================================
+// AI Tech Interview - Interview Languages
+// Locale, voice and prompt wording for each supported interview language
+// =========================================================================
+
+import type { InterviewLanguage } from '@/types/interview';
+
+export const INTERVIEW_LANGUAGES: readonly InterviewLanguage[] = ['en-US', 'es-ES', 'pt-BR'];
+
+export const DEFAULT_LANGUAGE: InterviewLanguage = 'en-US';
+
+export interface LanguageSettings {
+  /** Shown in the session form */
+  label: string;
+  /** Language name used in prompts */
+  promptName: string;
+  /** Azure neural voice that reads questions aloud, unless the persona has its own */
+  voice: string;
+}
+
+export const LANGUAGE_SETTINGS: Record<InterviewLanguage, LanguageSettings> = {
+  'en-US': { label: 'English', promptName: 'English', voice: 'en-US-AvaMultilingualNeural' },
+  'es-ES': { label: 'Español', promptName: 'Spanish (Spain)', voice: 'es-ES-ElviraNeural' },
+  'pt-BR': { label: 'Português (Brasil)', promptName: 'Brazilian Portuguese', voice: 'pt-BR-FranciscaNeural' },
+};
+
+/**
+ * Language of a stored session; unknown values fall back to the default
+ */
+export function toInterviewLanguage(value: string | null | undefined): InterviewLanguage {
+  return INTERVIEW_LANGUAGES.includes(value as InterviewLanguage) ? (value as InterviewLanguage) : DEFAULT_LANGUAGE;
+}
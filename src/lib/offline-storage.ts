@@ -4,6 +4,7 @@
 // =========================================================================
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { WordTiming } from '@/types/interview';
 
 // =========================================================================
 // Database Schema Definition
@@ -56,6 +57,7 @@ export interface PendingResponse {
   sessionId: string;
   audioBlob: Blob;
   transcription?: string;
+  wordTimings?: WordTiming[];
   durationSeconds: number;
   recordedAt: number;
   status: 'pending' | 'syncing' | 'synced' | 'failed';
@@ -405,6 +407,9 @@ export async function syncPendingData(): Promise<{
         if (response.transcription) {
           formData.append('transcription', response.transcription);
         }
+        if (response.wordTimings?.length) {
+          formData.append('wordTimings', JSON.stringify(response.wordTimings));
+        }
 
         const syncResponse = await fetch('/api/responses/sync', {
           method: 'POST',
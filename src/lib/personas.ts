@@ -0,0 +1,207 @@
+// =========================================================================
+// AI Tech Interview - Interviewer Personas
+// Voice, SSML speaking style and spoken script for each interviewer
+// persona, per interview language
+// =========================================================================
+
+import { LANGUAGE_SETTINGS } from './languages';
+import type { InterviewerPersona, InterviewLanguage } from '@/types/interview';
+
+export const INTERVIEWER_PERSONAS: readonly InterviewerPersona[] = ['friendly', 'neutral', 'stern'];
+
+export const DEFAULT_PERSONA: InterviewerPersona = 'neutral';
+
+// =========================================================================
+// Voices
+// =========================================================================
+
+export interface PersonaVoice {
+  /** Azure neural voice name */
+  name: string;
+  /** `mstts:express-as` style; only set for voices that support it */
+  style?: string;
+}
+
+export interface PersonaSettings {
+  /** Shown in the session form */
+  label: string;
+  description: string;
+  /** SSML prosody rate, relative to the voice's default */
+  rate: string;
+  /** Voices replacing the language's default voice */
+  voices: Partial<Record<InterviewLanguage, PersonaVoice>>;
+}
+
+export const PERSONA_SETTINGS: Record<InterviewerPersona, PersonaSettings> = {
+  friendly: {
+    label: 'Friendly',
+    description: 'Warm and encouraging, a relaxed warm-up',
+    rate: '+5%',
+    voices: {
+      'en-US': { name: 'en-US-JennyNeural', style: 'friendly' },
+    },
+  },
+  neutral: {
+    label: 'Neutral',
+    description: 'Even and professional, like most interviews',
+    rate: '0%',
+    voices: {},
+  },
+  stern: {
+    label: 'Stern (bar-raiser)',
+    description: 'Brisk and demanding, to practice under pressure',
+    rate: '-5%',
+    voices: {
+      'en-US': { name: 'en-US-GuyNeural', style: 'newscast' },
+      'es-ES': { name: 'es-ES-AlvaroNeural' },
+      'pt-BR': { name: 'pt-BR-AntonioNeural' },
+    },
+  },
+};
+
+/**
+ * Persona of a stored session; unknown values fall back to the default
+ */
+export function toInterviewerPersona(value: string | null | undefined): InterviewerPersona {
+  return INTERVIEWER_PERSONAS.includes(value as InterviewerPersona) ? (value as InterviewerPersona) : DEFAULT_PERSONA;
+}
+
+/**
+ * Voice a persona speaks with in a language
+ */
+export function getPersonaVoice(persona: InterviewerPersona, language: InterviewLanguage): PersonaVoice {
+  return PERSONA_SETTINGS[persona].voices[language] ?? { name: LANGUAGE_SETTINGS[language].voice };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * SSML that speaks plain text in a persona's voice, rate and style
+ */
+export function buildSsml(text: string, persona: InterviewerPersona, language: InterviewLanguage): string {
+  const voice = getPersonaVoice(persona, language);
+  const prosody = `<prosody rate="${PERSONA_SETTINGS[persona].rate}">${escapeXml(text)}</prosody>`;
+  const body = voice.style ? `<mstts:express-as style="${voice.style}">${prosody}</mstts:express-as>` : prosody;
+
+  return (
+    `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" ` +
+    `xmlns:mstts="https://www.w3.org/2001/mstts" xml:lang="${language}">` +
+    `<voice name="${voice.name}">${body}</voice></speak>`
+  );
+}
+
+// =========================================================================
+// Spoken Script
+// =========================================================================
+
+export interface PersonaScript {
+  introduction: (roleTitle: string, questionCount: number) => string;
+  nextQuestion: string;
+  followUp: string;
+  lastQuestion: string;
+  closing: string;
+}
+
+const PERSONA_SCRIPTS: Record<InterviewerPersona, Record<InterviewLanguage, PersonaScript>> = {
+  friendly: {
+    'en-US': {
+      introduction: (role, count) =>
+        `Hi, and welcome! Thanks for taking the time today. We'll go through ${count} questions for the ${role} role. ` +
+        `Take your time, and think out loud whenever it helps. Let's start with the first one.`,
+      nextQuestion: "Great, thanks. Here's the next question.",
+      followUp: "That's interesting, I'd love to hear a bit more.",
+      lastQuestion: "We're almost done. Here's the last question.",
+      closing: "That's everything from me. Thanks so much for your time, it was a pleasure talking with you.",
+    },
+    'es-ES': {
+      introduction: (role, count) =>
+        `¡Hola y bienvenido! Gracias por tu tiempo. Vamos a ver ${count} preguntas para el puesto de ${role}. ` +
+        `Tómate tu tiempo y piensa en voz alta si te ayuda. Empecemos con la primera.`,
+      nextQuestion: 'Genial, gracias. Vamos con la siguiente pregunta.',
+      followUp: 'Qué interesante, me gustaría saber un poco más.',
+      lastQuestion: 'Ya casi terminamos. Esta es la última pregunta.',
+      closing: 'Eso es todo por mi parte. Muchas gracias por tu tiempo, ha sido un placer hablar contigo.',
+    },
+    'pt-BR': {
+      introduction: (role, count) =>
+        `Olá, seja bem-vindo! Agradeço pelo seu tempo. Vamos passar por ${count} perguntas para a vaga de ${role}. ` +
+        `Fique à vontade e pense em voz alta se ajudar. Vamos começar pela primeira.`,
+      nextQuestion: 'Ótimo. Vamos para a próxima pergunta.',
+      followUp: 'Que interessante, eu gostaria de ouvir um pouco mais.',
+      lastQuestion: 'Estamos quase terminando. Esta é a última pergunta.',
+      closing: 'Por mim é isso. Agradeço muito pelo seu tempo, foi um prazer conversar com você.',
+    },
+  },
+  neutral: {
+    'en-US': {
+      introduction: (role, count) =>
+        `Welcome. This interview for the ${role} position has ${count} questions. ` +
+        `Each question is read aloud, and you can record your answer when you are ready. First question.`,
+      nextQuestion: 'Next question.',
+      followUp: 'A follow-up on your last answer.',
+      lastQuestion: 'Final question.',
+      closing: 'That concludes the interview. Thank you.',
+    },
+    'es-ES': {
+      introduction: (role, count) =>
+        `Bienvenido. Esta entrevista para el puesto de ${role} tiene ${count} preguntas. ` +
+        `Cada pregunta se lee en voz alta y puedes grabar tu respuesta cuando estés listo. Primera pregunta.`,
+      nextQuestion: 'Siguiente pregunta.',
+      followUp: 'Una pregunta de seguimiento sobre tu última respuesta.',
+      lastQuestion: 'Última pregunta.',
+      closing: 'Con esto termina la entrevista. Gracias.',
+    },
+    'pt-BR': {
+      introduction: (role, count) =>
+        `Bem-vindo. Esta entrevista para a vaga de ${role} tem ${count} perguntas. ` +
+        `Cada pergunta é lida em voz alta e você pode gravar sua resposta quando estiver pronto. Primeira pergunta.`,
+      nextQuestion: 'Próxima pergunta.',
+      followUp: 'Uma pergunta complementar sobre sua última resposta.',
+      lastQuestion: 'Última pergunta.',
+      closing: 'Isso conclui a entrevista. Agradeço a participação.',
+    },
+  },
+  stern: {
+    'en-US': {
+      introduction: (role, count) =>
+        `This is the interview for the ${role} position. There are ${count} questions. ` +
+        `I expect precise answers with concrete examples. Let's begin.`,
+      nextQuestion: 'Moving on.',
+      followUp: 'I want to dig deeper into that.',
+      lastQuestion: 'Last question. Make it count.',
+      closing: 'That concludes the interview. Your answers will now be evaluated.',
+    },
+    'es-ES': {
+      introduction: (role, count) =>
+        `Esta es la entrevista para el puesto de ${role}. Son ${count} preguntas. ` +
+        `Espero respuestas precisas con ejemplos concretos. Comencemos.`,
+      nextQuestion: 'Sigamos.',
+      followUp: 'Quiero profundizar en eso.',
+      lastQuestion: 'Última pregunta. Aprovéchala.',
+      closing: 'Con esto termina la entrevista. Ahora se evaluarán tus respuestas.',
+    },
+    'pt-BR': {
+      introduction: (role, count) =>
+        `Esta é a entrevista para a vaga de ${role}. São ${count} perguntas. ` +
+        `Espero respostas precisas, com exemplos concretos. Vamos começar.`,
+      nextQuestion: 'Seguindo.',
+      followUp: 'Quero aprofundar nesse ponto.',
+      lastQuestion: 'Última pergunta. Aproveite.',
+      closing: 'Isso conclui a entrevista. Suas respostas serão avaliadas agora.',
+    },
+  },
+};
+
+/**
+ * What a persona says in a language around the questions
+ */
+export function getPersonaScript(persona: InterviewerPersona, language: InterviewLanguage): PersonaScript {
+  return PERSONA_SCRIPTS[persona][language];
+}
@@ -6,7 +6,7 @@
 
 import { Pool } from 'pg';
 import { PrismaPg } from '@prisma/adapter-pg';
-import { PrismaClient } from '@/generated/prisma/client';
+import { Prisma, PrismaClient } from '@/generated/prisma/client';
 
 // Create PostgreSQL connection pool
 const connectionString = process.env.DATABASE_URL;
@@ -29,4 +29,34 @@ if (process.env.NODE_ENV !== 'production') {
   globalForPrisma.prisma = prisma;
 }
 
+/**
+ * Whether an error is a unique constraint violation (Prisma code P2002),
+ * e.g. from two requests inserting the same row at once
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Run `write` again when it hits a unique constraint, up to `attempts` times
+ * in all. For writes that claim the next number in a sequence (e.g. a version):
+ * the loser of a race re-reads the latest number and takes the one after it.
+ */
+export async function retryOnUniqueConstraint<T>(
+  label: string,
+  write: () => Promise<T>,
+  attempts = 3
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write();
+    } catch (error) {
+      if (!isUniqueConstraintError(error) || attempt >= attempts) {
+        throw error;
+      }
+      console.log(`${label}: unique constraint conflict, retrying`);
+    }
+  }
+}
+
 export default prisma;
@@ -0,0 +1,323 @@
+// =========================================================================
+// AI Tech Interview - Prompt Registry
+// Versioned system prompts. Each prompt has an id and integer versions,
+// referenced as "id@version" (e.g. "evaluation@2"). Versions come from the
+// built-ins in prompts.ts, from `<id>@<version>.md` files in PROMPTS_DIR,
+// and from the prompt_templates table, in increasing precedence.
+// Sessions are assigned one version per prompt by weighted A/B split.
+// =========================================================================
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from './prisma';
+import {
+  getCategoryMixRules,
+  getDistributionRules,
+  getEvaluationPrompt,
+  getQuestionGenerationPrompt,
+  getRubricGradingInstructions,
+  getResumeQuestionRules,
+  getResumeTopicRules,
+  getRubricOutputFormat,
+  getSpeechMetricsInstructions,
+  getTopicExtractionPrompt,
+  type QuestionGenerationConfig,
+} from './prompts';
+import type { SeniorityLevel } from '@/types/interview';
+
+// =========================================================================
+// Types
+// =========================================================================
+
+export const PROMPT_IDS = ['topic-extraction', 'question-generation', 'evaluation'] as const;
+
+export type PromptId = (typeof PROMPT_IDS)[number];
+
+/**
+ * Prompt version assigned to a session for each prompt, as "id@version"
+ */
+export type PromptVersions = Record<PromptId, string>;
+
+/**
+ * Inputs each prompt is rendered with
+ */
+export interface PromptInputs {
+  'topic-extraction': { withResume: boolean };
+  'question-generation': { seniorityLevel: SeniorityLevel; config: QuestionGenerationConfig; withResume: boolean };
+  evaluation: { withRubric: boolean; withSpeechMetrics: boolean };
+}
+
+export type PromptSource = 'built-in' | 'file' | 'database';
+
+export interface PromptVariant {
+  promptId: PromptId;
+  version: number;
+  /** "id@version" */
+  ref: string;
+  source: PromptSource;
+  weight: number;
+}
+
+interface ResolvedVariant extends PromptVariant {
+  /** `{{variable}}` template; absent for built-ins, which render directly */
+  template?: string;
+}
+
+export interface RenderedPrompt {
+  /** Version actually used, as "id@version" */
+  ref: string;
+  content: string;
+}
+
+// =========================================================================
+// Built-ins
+// =========================================================================
+
+/**
+ * Version of each built-in prompt in prompts.ts. When changing a built-in,
+ * bump its version so evaluations scored with the old text stay distinguishable.
+ */
+const BUILT_IN_VERSIONS: Record<PromptId, number> = {
+  'topic-extraction': 2,
+  'question-generation': 3,
+  evaluation: 2,
+};
+
+function renderBuiltIn<K extends PromptId>(promptId: K, input: PromptInputs[K]): string {
+  switch (promptId) {
+    case 'topic-extraction':
+      return getTopicExtractionPrompt((input as PromptInputs['topic-extraction']).withResume);
+    case 'question-generation': {
+      const { seniorityLevel, config, withResume } = input as PromptInputs['question-generation'];
+      return getQuestionGenerationPrompt(seniorityLevel, config, withResume);
+    }
+    case 'evaluation': {
+      const { withRubric, withSpeechMetrics } = input as PromptInputs['evaluation'];
+      return getEvaluationPrompt(withRubric, withSpeechMetrics);
+    }
+  }
+  throw new Error(`Unknown prompt: ${promptId}`);
+}
+
+/**
+ * Placeholder values available to file and database templates
+ */
+function getTemplateVariables<K extends PromptId>(promptId: K, input: PromptInputs[K]): Record<string, string> {
+  switch (promptId) {
+    case 'topic-extraction': {
+      const { withResume } = input as PromptInputs['topic-extraction'];
+      return { resumeRules: withResume ? getResumeTopicRules() : '' };
+    }
+    case 'question-generation': {
+      const { seniorityLevel, config, withResume } = input as PromptInputs['question-generation'];
+      return {
+        seniorityLevel,
+        resumeRules: withResume ? getResumeQuestionRules() : '',
+        distributionRules: getDistributionRules(seniorityLevel),
+        categoryMix: getCategoryMixRules(config),
+        minQuestionsPerTopic: String(config.minQuestionsPerTopic),
+        minTotalQuestions: String(config.minTotalQuestions),
+        maxTotalQuestions: String(config.maxTotalQuestions),
+      };
+    }
+    case 'evaluation': {
+      const { withRubric, withSpeechMetrics } = input as PromptInputs['evaluation'];
+      return {
+        rubricOutputFormat: withRubric ? getRubricOutputFormat() : '',
+        rubricGrading: withRubric ? getRubricGradingInstructions() : '',
+        speechMetricsRules: withSpeechMetrics ? getSpeechMetricsInstructions() : '',
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => variables[name] ?? match);
+}
+
+// =========================================================================
+// Variant Loading
+// =========================================================================
+
+export function toPromptRef(promptId: PromptId, version: number): string {
+  return `${promptId}@${version}`;
+}
+
+/**
+ * Parse "id@version"; returns null for unknown prompt ids or bad versions
+ */
+export function parsePromptRef(ref: string): { promptId: PromptId; version: number } | null {
+  const match = /^([a-z-]+)@(\d+)$/.exec(ref);
+  if (!match || !PROMPT_IDS.includes(match[1] as PromptId)) {
+    return null;
+  }
+  return { promptId: match[1] as PromptId, version: Number(match[2]) };
+}
+
+/**
+ * A/B weights from `PROMPT_WEIGHTS`, a JSON object of "id@version" to weight.
+ * Applies to every source and takes precedence over database weights.
+ */
+function getConfiguredWeights(): Record<string, number> {
+  if (!process.env.PROMPT_WEIGHTS) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(process.env.PROMPT_WEIGHTS) as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, number] => typeof entry[1] === 'number' && entry[1] >= 0
+      )
+    );
+  } catch {
+    console.error('PROMPT_WEIGHTS is not valid JSON; ignoring it');
+    return {};
+  }
+}
+
+async function loadFileTemplates(promptId: PromptId): Promise<Array<{ version: number; template: string }>> {
+  const dir = path.resolve(process.env.PROMPTS_DIR ?? 'prompts');
+  const files = await readdir(dir).catch(() => [] as string[]);
+
+  return Promise.all(
+    files
+      .map((file) => parsePromptRef(file.replace(/\.md$/, '')))
+      .filter((ref): ref is NonNullable<typeof ref> => ref?.promptId === promptId)
+      .map(async ({ version }) => ({
+        version,
+        template: await readFile(path.join(dir, `${toPromptRef(promptId, version)}.md`), 'utf8'),
+      }))
+  );
+}
+
+/**
+ * Every available version of a prompt, keyed by version number.
+ * Database rows override files, which override the built-in.
+ */
+async function loadVariants(promptId: PromptId): Promise<Map<number, ResolvedVariant>> {
+  const weights = getConfiguredWeights();
+  const variants = new Map<number, ResolvedVariant>();
+
+  const add = (version: number, source: PromptSource, template?: string, weight = 0) => {
+    const ref = toPromptRef(promptId, version);
+    variants.set(version, { promptId, version, ref, source, template, weight: weights[ref] ?? weight });
+  };
+
+  add(BUILT_IN_VERSIONS[promptId], 'built-in');
+
+  for (const { version, template } of await loadFileTemplates(promptId)) {
+    add(version, 'file', template);
+  }
+
+  const rows = await prisma.promptTemplate.findMany({ where: { promptId } });
+  for (const row of rows) {
+    add(row.version, 'database', row.template, row.weight);
+  }
+
+  return variants;
+}
+
+/**
+ * List every available version of every prompt with its A/B weight
+ */
+export async function listPromptVariants(): Promise<PromptVariant[]> {
+  const all = await Promise.all(PROMPT_IDS.map((promptId) => loadVariants(promptId)));
+  return all.flatMap((variants) =>
+    [...variants.values()]
+      .sort((a, b) => a.version - b.version)
+      .map(({ promptId, version, ref, source, weight }) => ({ promptId, version, ref, source, weight }))
+  );
+}
+
+// =========================================================================
+// A/B Assignment
+// =========================================================================
+
+/**
+ * FNV-1a hash, so a session always lands in the same bucket
+ */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function pickVariant(sessionId: string, promptId: PromptId, variants: ResolvedVariant[]): string {
+  const weighted = variants.filter((v) => v.weight > 0).sort((a, b) => a.version - b.version);
+  const total = weighted.reduce((sum, v) => sum + v.weight, 0);
+
+  // No split configured: everyone gets the built-in
+  if (total === 0) {
+    return toPromptRef(promptId, BUILT_IN_VERSIONS[promptId]);
+  }
+
+  let bucket = hash(`${sessionId}:${promptId}`) % total;
+  for (const variant of weighted) {
+    if (bucket < variant.weight) {
+      return variant.ref;
+    }
+    bucket -= variant.weight;
+  }
+  return weighted[weighted.length - 1].ref;
+}
+
+/**
+ * Assign a version of every prompt to a session by weighted split on the
+ * hashed session id. Deterministic for a given id and set of weights.
+ */
+export async function assignPromptVersions(sessionId: string): Promise<PromptVersions> {
+  const entries = await Promise.all(
+    PROMPT_IDS.map(async (promptId) => {
+      const variants = await loadVariants(promptId);
+      return [promptId, pickVariant(sessionId, promptId, [...variants.values()])] as const;
+    })
+  );
+  return Object.fromEntries(entries) as PromptVersions;
+}
+
+/**
+ * Version assigned to a session for a prompt. Sessions created before the
+ * registry have no assignment and use the built-in.
+ */
+export function getAssignedPromptRef(promptVersions: unknown, promptId: PromptId): string {
+  const assigned = (promptVersions as Partial<PromptVersions> | null)?.[promptId];
+  return assigned ?? toPromptRef(promptId, BUILT_IN_VERSIONS[promptId]);
+}
+
+// =========================================================================
+// Rendering
+// =========================================================================
+
+/**
+ * Render a prompt version. Falls back to the built-in when the requested
+ * version no longer exists; the returned `ref` is the version actually used.
+ */
+export async function renderPrompt<K extends PromptId>(
+  promptId: K,
+  input: PromptInputs[K],
+  ref: string = toPromptRef(promptId, BUILT_IN_VERSIONS[promptId])
+): Promise<RenderedPrompt> {
+  const parsed = parsePromptRef(ref);
+  const variant = parsed?.promptId === promptId ? (await loadVariants(promptId)).get(parsed.version) : undefined;
+
+  if (!variant) {
+    console.warn(`Prompt ${ref} not found; using the built-in ${promptId} prompt`);
+  }
+
+  if (!variant?.template) {
+    return {
+      ref: toPromptRef(promptId, BUILT_IN_VERSIONS[promptId]),
+      content: renderBuiltIn(promptId, input),
+    };
+  }
+
+  return {
+    ref: variant.ref,
+    content: renderTemplate(variant.template, getTemplateVariables(promptId, input)),
+  };
+}
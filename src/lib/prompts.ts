@@ -1,8 +1,11 @@
 // =========================================================================
 // AI Tech Interview - AI Prompt Templates
+// Built-in prompts. Versioning, overrides and A/B assignment live in
+// prompt-registry.ts.
 // =========================================================================
 
-import type { SeniorityLevel } from '@/types/interview';
+import type { InterviewLanguage, QuestionCategory, SeniorityLevel } from '@/types/interview';
+import { LANGUAGE_SETTINGS } from './languages';
 
 // =========================================================================
 // Topic Extraction Prompts
@@ -15,6 +18,8 @@ export interface QuestionGenerationConfig {
   minQuestionsPerTopic: number;
   maxTotalQuestions: number;
   minTotalQuestions: number;
+  /** Relative weight per category; categories left out get no questions */
+  categoryWeights?: Partial<Record<QuestionCategory, number>>;
 }
 
 export const DEFAULT_QUESTION_CONFIG: QuestionGenerationConfig = {
@@ -24,9 +29,10 @@ export const DEFAULT_QUESTION_CONFIG: QuestionGenerationConfig = {
 };
 
 /**
- * Get the system prompt for extracting topics from a job description
+ * Get the system prompt for extracting topics from a job description,
+ * cross-referenced with the candidate's resume when there is one
  */
-export function getTopicExtractionPrompt(): string {
+export function getTopicExtractionPrompt(withResume = false): string {
   return `You are an expert technical recruiter and interviewer with 15+ years of experience.
 
 Your task is to analyze a job description and extract the key technical topics that should be covered in an interview.
@@ -58,11 +64,11 @@ Return a JSON object with this exact structure:
       "description": "Brief description of what this topic covers in the context of the role",
       "priority": 1,
       "category": "technical|system-design|domain|soft-skills|methodology",
-      "keywords": ["keyword1", "keyword2"]
+      "keywords": ["keyword1", "keyword2"]${withResume ? ',\n      "source": "jd|resume|gap"' : ''}
     }
   ]
 }
-
+${withResume ? getResumeTopicRules() : ''}
 ## PRIORITY LEVELS
 
 - 1: Core requirement - must be covered extensively
@@ -78,6 +84,23 @@ Return a JSON object with this exact structure:
 5. Keep topic names concise (2-4 words)`;
 }
 
+/**
+ * Resume cross-reference rules added to topic extraction when the session has a resume
+ */
+export function getResumeTopicRules(): string {
+  return `
+## RESUME CROSS-REFERENCE
+
+The candidate's resume is provided after the job description. Compare the two and tag every topic with a source:
+
+- **resume**: A job requirement the resume shows experience with (a strength). Name the project or role from the resume in the description so questions can probe it
+- **gap**: A job requirement the resume does not show. These are the skills the interview must check
+- **jd**: A job requirement where the resume is neutral (e.g. soft skills it cannot demonstrate)
+
+Include at least one resume topic and one gap topic when the resume allows it. Resume topics may also cover a resume project that is relevant to the role but not named in the job description.
+`;
+}
+
 // =========================================================================
 // Question Generation Prompts (Topic-Based)
 // =========================================================================
@@ -87,9 +110,11 @@ Return a JSON object with this exact structure:
  */
 export function getQuestionGenerationPrompt(
   seniorityLevel: SeniorityLevel,
-  config: QuestionGenerationConfig = DEFAULT_QUESTION_CONFIG
+  config: QuestionGenerationConfig = DEFAULT_QUESTION_CONFIG,
+  withResume = false
 ): string {
   const distributionRules = getDistributionRules(seniorityLevel);
+  const categoryMix = getCategoryMixRules(config);
 
   return `You are an expert technical interviewer with 15+ years of experience conducting interviews at top tech companies.
 
@@ -104,8 +129,10 @@ Your task is to generate interview questions based on the specific topics extrac
 
 ## SENIORITY DISTRIBUTION RULES
 
-${distributionRules}
+Percentages are shares of the total number of questions; round to whole questions.
 
+${distributionRules}
+${categoryMix}
 ## QUESTION CATEGORIES
 
 1. **technical**: Deep-dive questions on specific technologies, languages, frameworks
@@ -129,6 +156,8 @@ ${distributionRules}
 - **junior**: Fundamental concepts, basic syntax, simple scenarios
 - **mid**: Practical application, common patterns, moderate complexity
 - **senior**: Architecture decisions, trade-offs, leadership, mentoring, edge cases
+- **staff**: Multi-team system design, cross-team technical alignment, driving large migrations, raising the engineering bar
+- **principal**: Org-wide technical strategy, multi-year architecture bets, influencing leadership, industry-level trade-offs
 
 ## OUTPUT FORMAT
 
@@ -139,9 +168,15 @@ Return a JSON object with this exact structure:
       "topicName": "The topic this question covers",
       "question": "The full question text",
       "category": "technical|system-design|behavioral|problem-solving",
-      "difficulty": "junior|mid|senior",
+      "difficulty": "junior|mid|senior|staff|principal",
       "expectedTopics": ["topic1", "topic2", "topic3"],
-      "timeLimitSeconds": 120
+      "timeLimitSeconds": 120,
+      "source": "jd|resume|gap",
+      "referenceAnswer": "A concise model answer a strong candidate would give",
+      "rubric": {
+        "mustMention": ["Point a strong answer covers", "Another required point"],
+        "redFlags": ["Statement that reveals a misconception"]
+      }
     }
   ]
 }
@@ -155,20 +190,92 @@ Return a JSON object with this exact structure:
 5. Each question should have 2-5 expected topics
 6. Time limits must match the category guidelines
 7. Vary question categories across topics for a well-rounded interview
-8. Senior questions should challenge architecture, decisions, and leadership
-9. Never include basic questions for senior roles`;
+8. Senior and above questions should challenge architecture, decisions, and leadership; staff and principal questions should reach beyond a single team
+9. Never include basic questions for senior, staff or principal roles
+10. referenceAnswer should be 3-5 sentences at the question's difficulty level
+11. rubric.mustMention lists 2-5 specific, checkable points; rubric.redFlags lists 1-3 common misconceptions
+12. source is the source of the question's topic${withResume ? '' : ' (always "jd" without a resume)'}
+${withResume ? getResumeQuestionRules() : ''}`;
+}
+
+/**
+ * Rules for probing the candidate's resume, added to question generation
+ * when the session has a resume
+ */
+export function getResumeQuestionRules(): string {
+  return `
+## RESUME-AWARE QUESTIONS
+
+The candidate's resume is provided after the job description. Topics are tagged with a source:
+
+- **resume** questions probe experience the resume claims: ask about a specific listed project, the decisions the candidate made and what they would do differently. Name the project
+- **gap** questions cover job requirements missing from the resume: check fundamentals and how the candidate would apply related experience. Do not mention that the skill is missing from their resume
+- **jd** questions are written from the job description as usual
+`;
+}
+
+/**
+ * Requested category mix as a prompt section, or an empty string when the
+ * session did not set category weights
+ */
+export function getCategoryMixRules(config: QuestionGenerationConfig): string {
+  const weights = Object.entries(config.categoryWeights ?? {}).filter(([, weight]) => weight > 0);
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total === 0) {
+    return '';
+  }
+
+  const lines = weights.map(
+    ([category, weight]) =>
+      `- ${category}: ~${Math.round((weight / total) * 100)}% (about ${Math.round((weight / total) * config.minTotalQuestions)} questions)`
+  );
+
+  return `
+## CATEGORY MIX
+
+The candidate asked for this category mix. It takes precedence over varying categories across topics:
+${lines.join('\n')}
+- Do not use categories that are not listed
+`;
 }
 
 /**
  * Get distribution rules based on seniority level
  */
-function getDistributionRules(seniorityLevel: SeniorityLevel): string {
+export function getDistributionRules(seniorityLevel: SeniorityLevel): string {
   switch (seniorityLevel) {
+    case 'principal':
+      return `For PRINCIPAL-level candidates:
+- 50% Principal-level questions
+- 30% Staff-level questions
+- 20% Senior-level questions
+- 0% Mid or Junior-level questions
+
+Principal questions MUST test:
+- Org-wide technical strategy and multi-year roadmaps
+- Architecture bets and how they are reversed when wrong
+- Influence on engineering and business leadership without authority
+- Setting standards adopted across many teams
+- Industry-level trade-offs (build vs buy, platform choices)`;
+
+    case 'staff':
+      return `For STAFF-level candidates:
+- 70% Staff-level questions
+- 30% Senior-level questions
+- 0% Mid or Junior-level questions
+
+Staff questions MUST test:
+- Design of systems spanning multiple teams
+- Driving technical alignment across teams
+- Leading large migrations and cross-cutting initiatives
+- Technical strategy for an area or domain
+- Growing senior engineers and raising the engineering bar`;
+
     case 'senior':
       return `For SENIOR-level candidates:
-- 70-80% Senior-level questions (7-8 questions)
-- 20-30% Mid-level questions (2-3 questions)
-- 0% Junior-level questions (0 questions)
+- 70-80% Senior-level questions
+- 20-30% Mid-level questions
+- 0% Junior-level questions
 
 Senior questions MUST test:
 - Architecture and system design decisions
@@ -179,9 +286,9 @@ Senior questions MUST test:
 
     case 'mid':
       return `For MID-level candidates:
-- 20% Senior-level questions (2 questions)
-- 60% Mid-level questions (6 questions)
-- 20% Junior-level questions (2 questions)
+- 20% Senior-level questions
+- 60% Mid-level questions
+- 20% Junior-level questions
 
 Mid-level questions should test:
 - Practical application of concepts
@@ -192,9 +299,9 @@ Mid-level questions should test:
 
     case 'junior':
       return `For JUNIOR-level candidates:
-- 0% Senior-level questions (0 questions)
-- 20% Mid-level questions (2 questions)
-- 80% Junior-level questions (8 questions)
+- 0% Senior-level questions
+- 20% Mid-level questions
+- 80% Junior-level questions
 
 Junior questions should test:
 - Fundamental concepts and syntax
@@ -210,51 +317,122 @@ Junior questions should test:
 // =========================================================================
 
 /**
- * Get the system prompt for response evaluation
+ * What a strong answer shows at each seniority level, so depth and
+ * relevance are judged against the role's scope rather than in general
  */
-export function getEvaluationPrompt(): string {
+export function getSeniorityExpectations(seniorityLevel: SeniorityLevel): string {
+  switch (seniorityLevel) {
+    case 'principal':
+      return `- Frames the answer in terms of organization-wide impact and multi-year consequences
+- Weighs business, people and technology trade-offs together
+- Shows how they influence leadership and set direction for many teams`;
+    case 'staff':
+      return `- Reasons about systems and decisions that span multiple teams
+- Explains how they build alignment and drive cross-team initiatives
+- Connects technical choices to the strategy of their area`;
+    case 'senior':
+      return `- Justifies architecture decisions and their trade-offs
+- Handles edge cases and failure modes without prompting
+- Draws on experience leading work and mentoring others`;
+    case 'mid':
+      return `- Applies concepts correctly to practical situations
+- Uses common patterns and explains why they fit
+- Gives concrete examples from delivered work`;
+    case 'junior':
+      return `- Explains fundamentals accurately
+- Reasons through a simple solution step by step
+- Is honest about gaps and how they would learn`;
+  }
+}
+
+/**
+ * Must-mention and red-flag grading added to the evaluation output format
+ * when the question has a rubric
+ */
+export function getRubricOutputFormat(): string {
+  return `,
+  "rubric": {
+    "hits": ["Must-mention points the answer covered"],
+    "misses": ["Must-mention points the answer did not cover"],
+    "redFlags": ["Red flags the answer raised"]
+  }`;
+}
+
+/**
+ * Rubric grading instructions for questions with a reference answer and rubric
+ */
+export function getRubricGradingInstructions(): string {
+  return `
+## RUBRIC GRADING
+
+The question comes with a reference answer and a rubric:
+- Grade technicalAccuracy and depth against the reference answer and the rubric, not only the expected topics
+- Copy each must-mention point verbatim, in its original wording and language, into either "hits" or "misses"
+- A point counts as a hit only if the answer conveys it, even in different words
+- List a red flag, copied verbatim like the must-mention points, only if the answer actually states that misconception; each one should lower technicalAccuracy
+`;
+}
+
+/**
+ * Instructions for scoring confidence from measured speech delivery metrics
+ */
+export function getSpeechMetricsInstructions(): string {
+  return `
+## SPEECH DELIVERY METRICS
+
+The response comes with delivery metrics measured from the recording:
+- Base the confidence score on these metrics rather than guessing fluency from the transcript, which the speech recognizer may have cleaned up
+- A pace well outside the typical range, frequent filler words, repeated words and long pauses should each lower confidence
+- Mention a delivery issue in improvements only when a metric shows it
+`;
+}
+
+/**
+ * Get the system prompt for response evaluation. `withRubric` adds rubric
+ * grading instructions for questions that have a reference answer and rubric;
+ * `withSpeechMetrics` adds instructions for measured delivery metrics.
+ */
+export function getEvaluationPrompt(withRubric = false, withSpeechMetrics = false): string {
   return `You are an expert technical interviewer evaluating a candidate's spoken response.
 
 ## EVALUATION CRITERIA
 
-Score each criterion from 0-100:
+Score each criterion independently from 0-100. The overall score is computed
+by the application from these scores, so do not calculate one.
 
-1. **relevance** (25% weight)
+1. **relevance**
    - Does the answer directly address the question asked?
    - Are all parts of the question covered?
    - Is the response on-topic without tangents?
 
-2. **technicalAccuracy** (25% weight)
+2. **technicalAccuracy**
    - Are technical concepts explained correctly?
    - Is terminology used appropriately?
    - Are best practices mentioned and correct?
 
-3. **clarity** (20% weight)
+3. **clarity**
    - Is the answer clear and easy to understand?
    - Is it concise without unnecessary rambling?
    - Is the language professional and articulate?
 
-4. **depth** (15% weight)
+4. **depth**
    - Does the answer show thorough understanding?
    - Are real-world examples or experiences provided?
    - Is there evidence of practical application?
 
-5. **structure** (10% weight)
+5. **structure**
    - Is the answer logically organized?
    - Does it follow a clear flow (problem → approach → solution)?
    - Are key points well-connected?
 
-6. **confidence** (5% weight)
+6. **confidence**
    - Does the speech flow naturally?
    - Are there minimal filler words ("um", "uh", "like")?
    - Does the candidate sound confident?
 
-## OVERALL SCORE CALCULATION
+## SCORE CALIBRATION
 
-Calculate the weighted average:
-overallScore = (relevance × 0.25) + (technicalAccuracy × 0.25) + (clarity × 0.20) + (depth × 0.15) + (structure × 0.10) + (confidence × 0.05)
-
-## PERFORMANCE BANDS
+Use these bands to calibrate each criterion score:
 
 - 90-100: Excellent - Strong hire recommendation
 - 75-89: Good - Hire with minor concerns
@@ -274,7 +452,6 @@ Return a JSON object with this exact structure:
     "structure": 70,
     "confidence": 85
   },
-  "overallScore": 82,
   "feedback": {
     "strengths": [
       "Specific strength 1",
@@ -285,9 +462,9 @@ Return a JSON object with this exact structure:
       "Specific area for improvement 2"
     ],
     "suggestion": "One actionable suggestion for next time"
-  }
+  }${withRubric ? getRubricOutputFormat() : ''}
 }
-
+${withRubric ? getRubricGradingInstructions() : ''}${withSpeechMetrics ? getSpeechMetricsInstructions() : ''}
 ## RULES
 
 1. Be fair but constructive in feedback
@@ -297,3 +474,165 @@ Return a JSON object with this exact structure:
 5. Strengths and improvements should be 2-4 items each
 6. The suggestion should be one specific, actionable tip`;
 }
+
+// =========================================================================
+// Follow-Up Prompts
+// =========================================================================
+
+/**
+ * Get the system prompt for deciding on an adaptive follow-up question
+ */
+export function getFollowUpPrompt(): string {
+  return `You are an experienced technical interviewer conducting a live spoken interview.
+The candidate has just answered a question. Decide whether a probing follow-up question is warranted.
+
+## WHEN TO FOLLOW UP
+
+Ask a follow-up when the answer:
+- Skips one or more of the expected topics that matter for the role
+- Makes a claim without explaining how or why
+- Stays generic where a concrete example or trade-off would reveal real experience
+
+Do NOT follow up when:
+- The answer already covers the expected topics with reasonable depth
+- The answer is empty or off-topic (a follow-up will not help)
+
+## FOLLOW-UP RULES
+
+1. Ask exactly one question that drills into the weakest part of the answer
+2. Build on what the candidate said; do not repeat the original question
+3. Keep it short enough to be read aloud (one or two sentences)
+4. Match the expected seniority level
+5. timeLimitSeconds should be shorter than the original question's limit (typically 45-120)
+
+## OUTPUT FORMAT
+
+Return a JSON object with this exact structure:
+{
+  "shouldFollowUp": true,
+  "reason": "Short explanation of the decision",
+  "followUp": {
+    "question": "You mentioned caching - how would you invalidate it when the source data changes?",
+    "expectedTopics": ["cache invalidation", "consistency"],
+    "timeLimitSeconds": 90
+  }
+}
+
+When no follow-up is needed, return "shouldFollowUp": false, a reason, and omit "followUp".`;
+}
+
+// =========================================================================
+// Question Regeneration Prompts
+// =========================================================================
+
+/**
+ * Get the system prompt for replacing a single question during review
+ */
+export function getQuestionRegenerationPrompt(): string {
+  return `You are an expert technical interviewer. The candidate reviewed their interview questions and asked for one of them to be replaced.
+
+## RULES
+
+1. Write exactly one new question on the same topic, with the same category and difficulty
+2. Ask about a different aspect of the topic than the original question
+3. Do not repeat or paraphrase the original question or any of the other questions in the session
+4. Keep it suitable for a spoken interview (one or two sentences)
+5. timeLimitSeconds follows the category: technical 45-120, system-design 120-300, behavioral 60-180, problem-solving 90-240
+6. Include a reference answer and rubric like the rest of the session
+
+## OUTPUT FORMAT
+
+Return a JSON object with this exact structure:
+{
+  "question": "How would you roll out a breaking API change without downtime?",
+  "category": "technical",
+  "difficulty": "senior",
+  "expectedTopics": ["versioning", "backward compatibility", "deprecation"],
+  "timeLimitSeconds": 90,
+  "topicName": "API Design",
+  "referenceAnswer": "A strong answer versions the API, keeps the old contract working during a deprecation window...",
+  "rubric": {
+    "mustMention": ["versioning", "backward compatibility", "deprecation window"],
+    "redFlags": ["Changes the contract in place"]
+  }
+}`;
+}
+
+// =========================================================================
+// Seniority Inference Prompts
+// =========================================================================
+
+/**
+ * Get the system prompt for inferring seniority when title rules are inconclusive
+ */
+export function getSeniorityInferencePrompt(): string {
+  return `You are an experienced technical recruiter. Decide which seniority level a job posting is hiring for.
+
+## LEVELS
+
+- **junior**: 0-2 years of experience; works on well-defined tasks with guidance
+- **mid**: 2-5 years; delivers features independently, follows established patterns
+- **senior**: 5+ years; makes architecture decisions for a team, mentors others
+- **staff**: 8+ years; leads design across multiple teams, sets technical direction for an area, drives cross-team initiatives
+- **principal**: 12+ years; owns org-wide technical strategy, influences leadership, makes multi-year architecture bets
+
+## RULES
+
+1. An explicit level in the title (e.g. "Team Lead (mid)", "Pleno", "Semi Senior") takes precedence over role words like "lead"
+2. Required years of experience are a strong signal; responsibilities are a supporting signal
+3. Titles and descriptions may be in any language
+4. You receive the result of a keyword-based first pass; use it as a hint, not as the answer
+5. confidence is 0-1 and should be low when the posting is ambiguous
+
+## OUTPUT FORMAT
+
+Return a JSON object with this exact structure:
+{
+  "level": "junior|mid|senior|staff|principal",
+  "confidence": 0.8,
+  "rationale": "One or two sentences citing the signals you relied on"
+}`;
+}
+
+// =========================================================================
+// Output Language
+// =========================================================================
+
+/**
+ * Instructions for writing a response in the interview language, appended
+ * to the user prompt so they apply to every prompt version. Empty for
+ * English, which the prompts are written in.
+ */
+export function getOutputLanguageRules(language: InterviewLanguage): string {
+  if (language === 'en-US') {
+    return '';
+  }
+
+  const { promptName } = LANGUAGE_SETTINGS[language];
+  return `
+## OUTPUT LANGUAGE
+
+This interview is conducted in ${promptName}:
+- Write every free-text value (questions, topics, feedback, rubric points of new questions) in ${promptName}
+- Keep JSON keys and enum values (categories, difficulties, sources, seniority levels) in English
+- When grading a rubric, copy the points in "rubric.hits", "rubric.misses" and "rubric.redFlags" in their original wording, untranslated
+`;
+}
+
+// =========================================================================
+// Repair Prompts
+// =========================================================================
+
+/**
+ * Get the follow-up message asking the model to fix invalid structured output
+ */
+export function getRepairPrompt(errors: string[]): string {
+  return `Your previous response did not match the required JSON structure.
+
+## VALIDATION ERRORS
+
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Return the complete corrected JSON object using the exact structure described in the instructions.
+Fix every error listed above. Do not include any text outside the JSON object.`;
+}
@@ -0,0 +1,276 @@
+// =========================================================================
+// AI Tech Interview - Question History
+// Compares generated questions with those asked in earlier sessions for
+// related roles, so repeated practice does not produce the same interview.
+// Near-duplicates are regenerated, or re-asked when they went badly.
+// =========================================================================
+
+import { prisma } from './prisma';
+import { regenerateInterviewQuestion } from './azure-openai';
+import { CURRENT_EVALUATION, getCurrentEvaluation } from './evaluations';
+import type { ExtractedTopic, GeneratedQuestionRaw } from '@/types/api';
+import type { InterviewLanguage, QuestionCategory, QuestionDifficulty, SeniorityLevel } from '@/types/interview';
+
+/**
+ * Share of distinct terms two questions must have in common (Jaccard
+ * similarity) to count as the same question
+ */
+const DUPLICATE_SIMILARITY = 0.6;
+
+/**
+ * Share of role title terms (seniority words aside) two sessions must have
+ * in common to count as related roles
+ */
+const RELATED_ROLE_SIMILARITY = 0.5;
+
+/**
+ * Overall scores below this (the "needs work" band and under) mark a
+ * question worth re-asking
+ */
+const WEAK_SCORE = 60;
+
+/**
+ * Most recent related sessions whose questions are compared
+ */
+const MAX_PAST_SESSIONS = 20;
+
+/**
+ * Most recent earlier sessions checked for relatedness, so the lookup stays
+ * bounded as the session table grows
+ */
+const MAX_CANDIDATE_SESSIONS = MAX_PAST_SESSIONS * 5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'could', 'describe', 'do', 'does', 'explain', 'for',
+  'from', 'how', 'i', 'in', 'is', 'it', 'me', 'of', 'on', 'or', 'tell', 'that', 'the', 'this', 'to', 'walk',
+  'was', 'we', 'what', 'when', 'where', 'which', 'why', 'with', 'would', 'you', 'your',
+]);
+
+const SENIORITY_WORDS = new Set([
+  'junior', 'jr', 'mid', 'senior', 'sr', 'staff', 'principal', 'lead', 'intern', 'ii', 'iii', 'iv',
+]);
+
+/**
+ * A question from an earlier session
+ */
+interface PastQuestion {
+  id: string;
+  question: string;
+  category: QuestionCategory;
+  difficulty: QuestionDifficulty;
+  expectedTopics: string[];
+  timeLimitSeconds: number;
+  topicName?: string;
+  referenceAnswer?: string;
+  mustMention: string[];
+  redFlags: string[];
+  /** Score of the current evaluation of its answer, if it was answered */
+  overallScore?: number;
+  terms: Set<string>;
+}
+
+/**
+ * A generated question after comparison with the history
+ */
+export type CheckedQuestion = GeneratedQuestionRaw & { repeatedFromId?: string };
+
+export interface QuestionHistoryContext {
+  sessionId: string;
+  roleTitle: string;
+  jobDescription: string;
+  seniorityLevel: SeniorityLevel;
+  language: InterviewLanguage;
+  topics: ExtractedTopic[];
+  repeatWeakQuestions: boolean;
+}
+
+// =========================================================================
+// Text Similarity
+// =========================================================================
+
+/**
+ * Distinct lowercase terms of a text, without stop words and plural "s"
+ */
+function toTerms(text: string, ignore: Set<string> = STOP_WORDS): Set<string> {
+  const terms = text
+    .toLowerCase()
+    .split(/[^a-z0-9#+]+/)
+    .filter((term) => term.length > 1 && !ignore.has(term))
+    .map((term) => (term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term));
+  return new Set(terms);
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * The past question most similar to a text, if it is a near-duplicate
+ */
+function findDuplicate(question: string, past: PastQuestion[]): PastQuestion | undefined {
+  const terms = toTerms(question);
+  let best: PastQuestion | undefined;
+  let bestScore = DUPLICATE_SIMILARITY;
+
+  for (const candidate of past) {
+    const score = similarity(terms, candidate.terms);
+    if (score >= bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// =========================================================================
+// History
+// =========================================================================
+
+/**
+ * Questions from the most recent earlier sessions in the same language for
+ * a related role: a similar title, or at least one topic in common
+ */
+async function loadPastQuestions(
+  sessionId: string,
+  roleTitle: string,
+  topicNames: string[],
+  language: InterviewLanguage
+): Promise<PastQuestion[]> {
+  const sessions = await prisma.interviewSession.findMany({
+    where: { id: { not: sessionId }, generationStage: 'ready', language },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_CANDIDATE_SESSIONS,
+    select: { id: true, roleTitle: true, topics: { select: { name: true } } },
+  });
+
+  const roleTerms = toTerms(roleTitle, SENIORITY_WORDS);
+  const topics = new Set(topicNames.map((name) => name.toLowerCase()));
+  const related = sessions
+    .filter(
+      (session) =>
+        similarity(roleTerms, toTerms(session.roleTitle, SENIORITY_WORDS)) >= RELATED_ROLE_SIMILARITY ||
+        session.topics.some((topic) => topics.has(topic.name.toLowerCase()))
+    )
+    .slice(0, MAX_PAST_SESSIONS);
+
+  if (related.length === 0) {
+    return [];
+  }
+
+  const questions = await prisma.interviewQuestion.findMany({
+    where: { sessionId: { in: related.map((session) => session.id) } },
+    include: {
+      topic: true,
+      responses: { include: { evaluations: CURRENT_EVALUATION } },
+    },
+  });
+
+  return questions.map((q) => {
+    const scores = q.responses.map((r) => getCurrentEvaluation(r)?.overallScore).filter((s) => s !== undefined);
+    return {
+      id: q.id,
+      question: q.question,
+      category: q.category as QuestionCategory,
+      difficulty: q.difficulty as QuestionDifficulty,
+      expectedTopics: q.expectedTopics,
+      timeLimitSeconds: q.timeLimitSeconds,
+      topicName: q.topic?.name,
+      referenceAnswer: q.referenceAnswer ?? undefined,
+      mustMention: q.rubricMustMention,
+      redFlags: q.rubricRedFlags,
+      overallScore: scores.length > 0 ? Math.max(...scores) : undefined,
+      terms: toTerms(q.question),
+    };
+  });
+}
+
+/**
+ * Re-ask a past question as-is, in place of the generated question it matched
+ */
+function repeatQuestion(past: PastQuestion, generated: GeneratedQuestionRaw): CheckedQuestion {
+  return {
+    question: past.question,
+    category: past.category,
+    difficulty: past.difficulty,
+    expectedTopics: past.expectedTopics,
+    timeLimitSeconds: past.timeLimitSeconds,
+    topicName: generated.topicName,
+    source: generated.source,
+    referenceAnswer: past.referenceAnswer,
+    rubric: past.mustMention.length > 0 ? { mustMention: past.mustMention, redFlags: past.redFlags } : undefined,
+    repeatedFromId: past.id,
+  };
+}
+
+/**
+ * Replace generated questions that repeat one from an earlier related
+ * session. With `repeatWeakQuestions`, a repeat of a question answered
+ * below WEAK_SCORE is kept and asked in its original wording instead.
+ * Each repeat is regenerated once; if that fails or repeats again, the
+ * generated question is kept.
+ */
+export async function avoidRepeatedQuestions(
+  questions: GeneratedQuestionRaw[],
+  context: QuestionHistoryContext
+): Promise<CheckedQuestion[]> {
+  const past = await loadPastQuestions(
+    context.sessionId,
+    context.roleTitle,
+    context.topics.map((t) => t.name),
+    context.language
+  );
+  if (past.length === 0) {
+    return questions;
+  }
+
+  const checked: CheckedQuestion[] = [...questions];
+  const repeatedIds = new Set<string>();
+  let replaced = 0;
+
+  for (const [index, question] of questions.entries()) {
+    const duplicate = findDuplicate(question.question, past);
+    if (!duplicate) continue;
+
+    const isWeak = duplicate.overallScore !== undefined && duplicate.overallScore < WEAK_SCORE;
+    if (context.repeatWeakQuestions && isWeak && !repeatedIds.has(duplicate.id)) {
+      repeatedIds.add(duplicate.id);
+      checked[index] = repeatQuestion(duplicate, question);
+      continue;
+    }
+
+    const topic = context.topics.find((t) => t.name === question.topicName);
+    const avoid = [
+      ...checked.filter((_, i) => i !== index).map((q) => q.question),
+      ...past.filter((p) => p === duplicate || (p.topicName && p.topicName === question.topicName)).map((p) => p.question),
+    ];
+
+    try {
+      const replacement = await regenerateInterviewQuestion(
+        context.roleTitle,
+        context.jobDescription,
+        context.seniorityLevel,
+        { ...question, topicDescription: topic?.description },
+        avoid,
+        context.language
+      );
+      if (!findDuplicate(replacement.question, past)) {
+        checked[index] = replacement;
+        replaced++;
+      }
+    } catch (error) {
+      console.warn(`Session ${context.sessionId}: could not replace a repeated question:`, error);
+    }
+  }
+
+  if (replaced > 0 || repeatedIds.size > 0) {
+    console.log(
+      `Session ${context.sessionId}: replaced ${replaced} repeated questions, re-asking ${repeatedIds.size} weak ones`
+    );
+  }
+  return checked;
+}
@@ -0,0 +1,176 @@
+// =========================================================================
+// AI Tech Interview - Interview Questions
+// Mapping, validation and review rules shared by the question API routes
+// =========================================================================
+
+import { prisma } from './prisma';
+import {
+  array,
+  number,
+  object,
+  oneOf,
+  optional,
+  QUESTION_CATEGORIES,
+  QUESTION_DIFFICULTIES,
+  rubricSchema,
+  string,
+  validateWithSchema,
+  type Schema,
+  type SchemaResult,
+} from './ai-schemas';
+import type { InterviewQuestion as InterviewQuestionRecord, InterviewTopic } from '@/generated/prisma/client';
+import type { CreateQuestionRequest, ReorderQuestionsRequest, UpdateQuestionRequest } from '@/types/api';
+import type {
+  InterviewQuestion,
+  QuestionAuthorType,
+  QuestionCategory,
+  QuestionDifficulty,
+  QuestionRubric,
+  QuestionSource,
+} from '@/types/interview';
+
+/**
+ * Convert a database question row to the API `InterviewQuestion` shape
+ */
+export function toInterviewQuestion(q: InterviewQuestionRecord & { topic: InterviewTopic | null }): InterviewQuestion {
+  return {
+    id: q.id,
+    sessionId: q.sessionId,
+    topicId: q.topicId ?? undefined,
+    topicName: q.topic?.name,
+    parentQuestionId: q.parentQuestionId ?? undefined,
+    questionNumber: q.questionNumber,
+    question: q.question,
+    category: q.category as QuestionCategory,
+    difficulty: q.difficulty as QuestionDifficulty,
+    expectedTopics: q.expectedTopics,
+    timeLimitSeconds: q.timeLimitSeconds,
+    timeLimit: q.timeLimitSeconds,
+    authorType: q.authorType as QuestionAuthorType,
+    source: (q.source as QuestionSource | null) ?? undefined,
+    repeatedFromId: q.repeatedFromId ?? undefined,
+    referenceAnswer: q.referenceAnswer ?? undefined,
+    rubric: q.rubricMustMention.length > 0
+      ? { mustMention: q.rubricMustMention, redFlags: q.rubricRedFlags }
+      : undefined,
+    createdAt: q.createdAt.toISOString(),
+  };
+}
+
+// =========================================================================
+// Input Validation
+// =========================================================================
+
+/**
+ * Like `optional`, but keeps an explicit `null` so a field can be cleared
+ */
+function nullable<T>(schema: Schema<T>): Schema<T | null | undefined> {
+  return (value, path, errors) => (value === null ? null : optional<T | undefined>(schema, undefined)(value, path, errors));
+}
+
+const questionText = string({ minLength: 10 });
+const category = oneOf(QUESTION_CATEGORIES);
+const difficulty = oneOf(QUESTION_DIFFICULTIES);
+const expectedTopics = array(string(), { maxLength: 8 });
+const timeLimitSeconds = number({ min: 15, max: 900, integer: true });
+
+const updateQuestionSchema = object<UpdateQuestionRequest>({
+  question: optional<string | undefined>(questionText, undefined),
+  category: optional<QuestionCategory | undefined>(category, undefined),
+  difficulty: optional<QuestionDifficulty | undefined>(difficulty, undefined),
+  expectedTopics: optional<string[] | undefined>(expectedTopics, undefined),
+  timeLimitSeconds: optional<number | undefined>(timeLimitSeconds, undefined),
+  referenceAnswer: nullable(string()),
+  rubric: nullable<QuestionRubric>(rubricSchema),
+});
+
+const createQuestionSchema = object<CreateQuestionRequest>({
+  question: questionText,
+  category,
+  difficulty: optional<QuestionDifficulty | undefined>(difficulty, undefined),
+  expectedTopics: optional<string[] | undefined>(expectedTopics, undefined),
+  timeLimitSeconds: optional<number | undefined>(timeLimitSeconds, undefined),
+  topicId: optional<string | undefined>(string(), undefined),
+});
+
+const reorderQuestionsSchema = object<ReorderQuestionsRequest>({
+  questionIds: array(string(), { minLength: 1 }),
+});
+
+/**
+ * Validate a request body for editing a question
+ */
+export function validateUpdateQuestion(body: unknown): SchemaResult<UpdateQuestionRequest> {
+  return validateWithSchema(body, updateQuestionSchema);
+}
+
+/**
+ * Validate a request body for adding a question
+ */
+export function validateCreateQuestion(body: unknown): SchemaResult<CreateQuestionRequest> {
+  return validateWithSchema(body, createQuestionSchema);
+}
+
+/**
+ * Validate a request body for reordering questions
+ */
+export function validateReorderQuestions(body: unknown): SchemaResult<ReorderQuestionsRequest> {
+  return validateWithSchema(body, reorderQuestionsSchema);
+}
+
+/**
+ * Whether an update changes what is asked (as opposed to how it is graded)
+ */
+export function isContentUpdate(update: UpdateQuestionRequest): boolean {
+  return (['question', 'category', 'difficulty', 'expectedTopics', 'timeLimitSeconds'] as const).some(
+    (field) => update[field] !== undefined
+  );
+}
+
+// =========================================================================
+// Question Review
+// =========================================================================
+
+/**
+ * Why a session's questions cannot be changed, with the HTTP status to return
+ */
+export interface QuestionReviewBlock {
+  status: 404 | 409;
+  code: string;
+  message: string;
+}
+
+/**
+ * Questions can be added, removed, reordered and rewritten once generation
+ * has finished and until the first answer is saved. Returns null when
+ * review changes are allowed.
+ */
+export async function getQuestionReviewBlock(sessionId: string): Promise<QuestionReviewBlock | null> {
+  const session = await prisma.interviewSession.findUnique({
+    where: { id: sessionId },
+    select: { generationStage: true, _count: { select: { responses: true } } },
+  });
+
+  if (!session) {
+    return { status: 404, code: 'SESSION_NOT_FOUND', message: 'Session not found' };
+  }
+  if (session.generationStage !== 'ready') {
+    return { status: 409, code: 'GENERATION_IN_PROGRESS', message: 'Questions are still being generated' };
+  }
+  if (session._count.responses > 0) {
+    return { status: 409, code: 'INTERVIEW_STARTED', message: 'Questions cannot be changed after the interview has started' };
+  }
+  return null;
+}
+
+/**
+ * A session's questions in interview order
+ */
+export async function listSessionQuestions(sessionId: string): Promise<InterviewQuestion[]> {
+  const questions = await prisma.interviewQuestion.findMany({
+    where: { sessionId },
+    orderBy: { questionNumber: 'asc' },
+    include: { topic: true },
+  });
+  return questions.map(toInterviewQuestion);
+}
@@ -0,0 +1,89 @@
+// =========================================================================
+// AI Tech Interview - Response Audio
+// Stores recorded answers in the configured blob storage (see storage/)
+// under their session and question, with the timing of each spoken word
+// =========================================================================
+
+import { getStorage } from './storage';
+import { array, number, object, parseWithSchema, string, type SchemaResult } from './ai-schemas';
+import type { WordTiming } from '@/types/interview';
+
+/**
+ * Largest recording accepted; a 5-minute Opus answer is around 2-3 MB
+ */
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Longest offset or duration accepted for a word, well past any time limit
+ */
+const MAX_WORD_TIME_MS = 60 * 60 * 1000;
+
+const wordTimingSchema = object<WordTiming>({
+  word: string(),
+  offsetMs: number({ min: 0, max: MAX_WORD_TIME_MS, integer: true }),
+  durationMs: number({ min: 0, max: MAX_WORD_TIME_MS, integer: true }),
+});
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+/**
+ * Recording format of an uploaded file without codec parameters (MediaRecorder
+ * types look like "audio/webm;codecs=opus"), or null when it is not a
+ * supported audio format. Only these types are stored and served, so an
+ * upload cannot make the app serve HTML or SVG from its own origin.
+ */
+export function toAudioContentType(type: string): string | null {
+  const contentType = type.split(';')[0].trim().toLowerCase();
+  return contentType in EXTENSIONS ? contentType : null;
+}
+
+/**
+ * Supported recording formats, for error messages
+ */
+export const AUDIO_CONTENT_TYPES = Object.keys(EXTENSIONS);
+
+/**
+ * URL the browser plays a response's recording from
+ */
+export function getResponseAudioUrl(responseId: string): string {
+  return `/api/responses/${responseId}/audio`;
+}
+
+/**
+ * Store the recording of an answer and return its storage key. Re-recording
+ * a question overwrites the previous file; a previous file with another
+ * format is removed. Throws for unsupported formats (see toAudioContentType).
+ */
+export async function saveResponseAudio(
+  sessionId: string,
+  questionId: string,
+  audio: Blob,
+  previousKey?: string | null
+): Promise<string> {
+  const contentType = toAudioContentType(audio.type);
+  if (!contentType) {
+    throw new Error(`Unsupported audio type: ${audio.type || '(none)'}`);
+  }
+  const key = `sessions/${sessionId}/questions/${questionId}/answer.${EXTENSIONS[contentType]}`;
+  const storage = getStorage();
+
+  await storage.put(key, Buffer.from(await audio.arrayBuffer()), contentType);
+
+  if (previousKey && previousKey !== key) {
+    await storage.delete(previousKey).catch((error) => console.warn(`Failed to delete old audio ${previousKey}:`, error));
+  }
+  return key;
+}
+
+/**
+ * Parse the word timings sent with a recording (a JSON array)
+ */
+export function parseWordTimings(raw: string): SchemaResult<WordTiming[]> {
+  return parseWithSchema(raw, array(wordTimingSchema));
+}
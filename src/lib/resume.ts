@@ -0,0 +1,24 @@
+// =========================================================================
+// AI Tech Interview - Candidate Resumes
+// Resume text is cross-referenced with the job description during topic
+// extraction and question generation (see azure-openai.ts).
+// =========================================================================
+
+import { extractDocumentText, truncateText } from './document-text';
+import type { DocumentFormat } from '@/types/api';
+
+/**
+ * Longest resume accepted on a session; uploads are cut to this length
+ */
+export const MAX_RESUME_CHARS = 15000;
+
+/**
+ * Extract the text of an uploaded resume, cut to `MAX_RESUME_CHARS`.
+ * Throws when the file cannot be parsed or contains no text.
+ */
+export async function extractResume(
+  buffer: Buffer,
+  format: DocumentFormat
+): Promise<{ text: string; truncated: boolean }> {
+  return truncateText(await extractDocumentText(buffer, format), MAX_RESUME_CHARS);
+}
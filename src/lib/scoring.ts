@@ -0,0 +1,86 @@
+// =========================================================================
+// AI Tech Interview - Scoring
+// Computes the overall score from the six criteria server-side, using
+// per-category weight profiles. Profiles are versioned: change weights by
+// adding a new version so stored scores can still be explained.
+// =========================================================================
+
+import type { EvaluationScores, QuestionCategory } from '@/types/interview';
+
+export type ScoreWeights = Record<keyof EvaluationScores, number>;
+
+export type WeightProfile = Record<QuestionCategory, ScoreWeights>;
+
+const DEFAULT_WEIGHTS: ScoreWeights = {
+  relevance: 0.25,
+  technicalAccuracy: 0.25,
+  clarity: 0.2,
+  depth: 0.15,
+  structure: 0.1,
+  confidence: 0.05,
+};
+
+/**
+ * All weight profile versions ever used. Never edit a published version.
+ */
+export const WEIGHT_PROFILES: Record<string, WeightProfile> = {
+  v1: {
+    technical: DEFAULT_WEIGHTS,
+    'system-design': {
+      relevance: 0.2,
+      technicalAccuracy: 0.2,
+      clarity: 0.15,
+      depth: 0.3,
+      structure: 0.1,
+      confidence: 0.05,
+    },
+    behavioral: {
+      relevance: 0.25,
+      technicalAccuracy: 0.1,
+      clarity: 0.25,
+      depth: 0.15,
+      structure: 0.15,
+      confidence: 0.1,
+    },
+    'problem-solving': {
+      relevance: 0.2,
+      technicalAccuracy: 0.25,
+      clarity: 0.15,
+      depth: 0.2,
+      structure: 0.15,
+      confidence: 0.05,
+    },
+  },
+};
+
+export const CURRENT_WEIGHT_PROFILE_VERSION = 'v1';
+
+/**
+ * Weights for a question category, from the current profile unless a version is given
+ */
+export function getScoreWeights(
+  category: QuestionCategory,
+  version: string = CURRENT_WEIGHT_PROFILE_VERSION
+): ScoreWeights {
+  const profile = WEIGHT_PROFILES[version];
+  if (!profile) {
+    throw new Error(`Unknown weight profile version: ${version}`);
+  }
+  return profile[category] ?? DEFAULT_WEIGHTS;
+}
+
+/**
+ * Weighted overall score (0-100, rounded) for a question category
+ */
+export function computeOverallScore(
+  scores: EvaluationScores,
+  category: QuestionCategory,
+  version: string = CURRENT_WEIGHT_PROFILE_VERSION
+): number {
+  const weights = getScoreWeights(category, version);
+  const total = (Object.keys(weights) as (keyof EvaluationScores)[]).reduce(
+    (sum, criterion) => sum + scores[criterion] * weights[criterion],
+    0
+  );
+  return Math.round(total);
+}
@@ -0,0 +1,202 @@
+// =========================================================================
+// AI Tech Interview - Seniority Inference
+// Scores the role title and job description for seniority signals (title
+// keywords in several languages, required years of experience, scope of
+// responsibilities). When the signals are weak or conflicting, the AI
+// provider is asked to decide.
+// =========================================================================
+
+import { inferSeniorityWithModel } from './azure-openai';
+import type { SeniorityInference, SeniorityLevel } from '@/types/interview';
+
+/**
+ * Below this rule confidence the model is consulted
+ */
+const AI_CONFIDENCE_THRESHOLD = 0.6;
+
+interface Signal {
+  level: SeniorityLevel;
+  weight: number;
+  reason: string;
+}
+
+interface KeywordRule {
+  pattern: RegExp;
+  level: SeniorityLevel;
+  weight: number;
+}
+
+/**
+ * Whole-word, case-insensitive match that also works for accented words
+ * (`\b` only understands ASCII letters)
+ */
+function words(...alternatives: string[]): RegExp {
+  return new RegExp(`(?<!\\p{L})(?:${alternatives.join('|')})(?!\\p{L})`, 'iu');
+}
+
+// =========================================================================
+// Title Rules
+// =========================================================================
+
+/**
+ * Ordered by strength. An explicit level such as "Team Lead (mid)" or
+ * "Pleno" outweighs role words like "lead" that only suggest seniority.
+ */
+const TITLE_RULES: KeywordRule[] = [
+  { pattern: /\(\s*(?:junior|jr\.?)\s*\)/i, level: 'junior', weight: 4 },
+  { pattern: /\(\s*(?:mid|mid-level|intermediate)\s*\)/i, level: 'mid', weight: 4 },
+  { pattern: /\(\s*(?:senior|sr\.?)\s*\)/i, level: 'senior', weight: 4 },
+  { pattern: /\(\s*staff\s*\)/i, level: 'staff', weight: 4 },
+  { pattern: /\(\s*principal\s*\)/i, level: 'principal', weight: 4 },
+  { pattern: words('senior staff'), level: 'staff', weight: 4 },
+  {
+    pattern: words('junior', 'jr\\.?', 'j[úu]nior', 'entry[- ]level', 'graduate', 'trainee', 'intern',
+      'becario', 'practicante', 'estagi[áa]rio', 'praktikant', 'stagiaire', 'd[ée]butant'),
+    level: 'junior',
+    weight: 3,
+  },
+  {
+    pattern: words('mid', 'mid-level', 'intermediate', 'semi[- ]?senior', 'ssr', 'pleno', 'medior'),
+    level: 'mid',
+    weight: 3,
+  },
+  { pattern: words('senior', 'sr\\.?', 's[êe]nior'), level: 'senior', weight: 3 },
+  { pattern: words('staff'), level: 'staff', weight: 3 },
+  { pattern: words('principal', 'distinguished', 'fellow'), level: 'principal', weight: 3 },
+  { pattern: words('architect', 'arquitect[oa]', 'arquitet[oa]'), level: 'staff', weight: 2.5 },
+  { pattern: words('head of', 'director'), level: 'principal', weight: 2.5 },
+  { pattern: words('lead', 'tech lead', 'l[íi]der', 'leiter'), level: 'senior', weight: 1.5 },
+  { pattern: words('associate'), level: 'junior', weight: 1 },
+];
+
+/**
+ * Strongest title signal per level, so "Senior (senior)" does not count twice
+ */
+function getTitleSignals(roleTitle: string): Signal[] {
+  const signals = new Map<SeniorityLevel, Signal>();
+  for (const { pattern, level, weight } of TITLE_RULES) {
+    const match = pattern.exec(roleTitle);
+    if (match && !signals.has(level)) {
+      signals.set(level, { level, weight, reason: `title mentions "${match[0].trim()}"` });
+    }
+  }
+  return [...signals.values()];
+}
+
+// =========================================================================
+// Job Description Rules
+// =========================================================================
+
+const YEARS_PATTERN =
+  /(\d{1,2})\s*\+?\s*(?:(?:-|–|to|a|bis)\s*\d{1,2}\s*)?(?:years?|yrs?|años|anos|jahre|ans)/giu;
+
+const RESPONSIBILITY_RULES: KeywordRule[] = [
+  { pattern: words('mentor(?:ing|ship)?', 'coach(?:ing)?', 'mentor[íi]a'), level: 'senior', weight: 1 },
+  { pattern: words('lead (?:a|the) team', 'team leadership', 'technical leadership', 'liderar'), level: 'senior', weight: 1 },
+  { pattern: words('architecture decisions', 'technical direction', 'roadmap'), level: 'senior', weight: 1 },
+  { pattern: words('multiple teams', 'cross-team', 'across teams', 'technical strategy'), level: 'staff', weight: 1 },
+  { pattern: words('org(?:anization)?-wide', 'company-wide', 'technical vision', 'multi-year'), level: 'principal', weight: 1 },
+  { pattern: words('under supervision', 'with guidance', 'eager to learn', 'willingness to learn'), level: 'junior', weight: 1 },
+  { pattern: words('recent graduate', 'bootcamp', 'no (?:prior )?experience required'), level: 'junior', weight: 1.5 },
+];
+
+/**
+ * Level implied by required years of experience
+ */
+function levelForYears(years: number): SeniorityLevel {
+  if (years < 2) return 'junior';
+  if (years < 5) return 'mid';
+  if (years < 8) return 'senior';
+  if (years < 12) return 'staff';
+  return 'principal';
+}
+
+function getDescriptionSignals(jobDescription: string): Signal[] {
+  const signals: Signal[] = [];
+
+  // The highest stated minimum is usually the overall requirement
+  const years = [...jobDescription.matchAll(YEARS_PATTERN)]
+    .map((match) => Number(match[1]))
+    .filter((value) => value <= 30);
+  if (years.length > 0) {
+    const required = Math.max(...years);
+    signals.push({
+      level: levelForYears(required),
+      weight: 3,
+      reason: `job description asks for ${required}+ years of experience`,
+    });
+  }
+
+  for (const { pattern, level, weight } of RESPONSIBILITY_RULES) {
+    const match = pattern.exec(jobDescription);
+    if (match) {
+      signals.push({ level, weight, reason: `job description mentions "${match[0].trim()}"` });
+    }
+  }
+
+  return signals;
+}
+
+// =========================================================================
+// Inference
+// =========================================================================
+
+/**
+ * Infer seniority from title and description rules only. Confidence is the
+ * winning level's share of all signal weight, scaled down when there is
+ * little evidence, so weak or conflicting signals give a low confidence.
+ */
+export function inferSeniorityFromRules(roleTitle: string, jobDescription = ''): SeniorityInference {
+  const signals = [...getTitleSignals(roleTitle), ...getDescriptionSignals(jobDescription)];
+
+  if (signals.length === 0) {
+    return {
+      level: 'mid',
+      confidence: 0.34,
+      rationale: 'No seniority signals in the title or job description; defaulting to mid-level.',
+      source: 'rules',
+    };
+  }
+
+  const totals: Record<SeniorityLevel, number> = { junior: 0, mid: 0, senior: 0, staff: 0, principal: 0 };
+  for (const signal of signals) {
+    totals[signal.level] += signal.weight;
+  }
+
+  // Ties resolve towards mid, the safest interview level, and away from staff and principal
+  const level = (['mid', 'senior', 'junior', 'staff', 'principal'] as const).reduce((best, candidate) =>
+    totals[candidate] > totals[best] ? candidate : best
+  );
+  const total = Object.values(totals).reduce((sum, weight) => sum + weight, 0);
+  const supporting = signals.filter((s) => s.level === level).map((s) => s.reason);
+  const conflicting = signals.filter((s) => s.level !== level).map((s) => `${s.reason} (${s.level})`);
+
+  return {
+    level,
+    confidence: Math.round(Math.min(0.95, (totals[level] / total) * Math.min(1, total / 3)) * 100) / 100,
+    rationale:
+      `Inferred ${level}: ${supporting.join('; ')}.` +
+      (conflicting.length > 0 ? ` Conflicting: ${conflicting.join('; ')}.` : ''),
+    source: 'rules',
+  };
+}
+
+/**
+ * Infer seniority from the role title and job description. Rules decide
+ * when they are confident; otherwise the AI provider is asked, falling
+ * back to the rule result if that call fails.
+ */
+export async function inferSeniority(roleTitle: string, jobDescription = ''): Promise<SeniorityInference> {
+  const rules = inferSeniorityFromRules(roleTitle, jobDescription);
+  if (rules.confidence >= AI_CONFIDENCE_THRESHOLD) {
+    return rules;
+  }
+
+  try {
+    const ai = await inferSeniorityWithModel(roleTitle, jobDescription, rules);
+    return { ...ai, source: 'ai' };
+  } catch (error) {
+    console.error('AI seniority inference failed, using rule-based result:', error);
+    return rules;
+  }
+}
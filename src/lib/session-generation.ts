@@ -0,0 +1,321 @@
+// =========================================================================
+// AI Tech Interview - Session Generation Job
+// Extracts topics and generates questions for a session in the background.
+// Progress is persisted on the session so clients can poll for it.
+// =========================================================================
+
+import { prisma } from './prisma';
+import { extractTopicsFromJobDescription, generateInterviewQuestions } from './azure-openai';
+import type { QuestionGenerationConfig } from './prompts';
+import { getTemplate } from './templates';
+import { getAssignedPromptRef } from './prompt-registry';
+import {
+  applyTopicFocus,
+  getRequestedQuestionCount,
+  isTopicExcluded,
+  toQuestionGenerationConfig,
+} from './session-options';
+import { avoidRepeatedQuestions } from './question-history';
+import { toInterviewLanguage } from './languages';
+import { inferSeniority } from './seniority';
+import type { InterviewSession as InterviewSessionRecord } from '@/generated/prisma/client';
+import type { ExtractedTopic } from '@/types/api';
+import type {
+  GenerationStage,
+  QuestionAuthorType,
+  QuestionRubric,
+  QuestionSource,
+  SeniorityLevel,
+  SessionGenerationOptions,
+  SessionSourceMode,
+} from '@/types/interview';
+
+/**
+ * Minimum number of AI questions added on top of a template in mixed sessions
+ */
+const MIN_MIXED_AI_QUESTIONS = 3;
+
+/**
+ * In mixed sessions the AI only covers topics the template does not, using
+ * whatever remains of the session's question budget
+ */
+function getMixedQuestionConfig(
+  templateQuestionCount: number,
+  config: QuestionGenerationConfig
+): QuestionGenerationConfig {
+  const budget = Math.max(MIN_MIXED_AI_QUESTIONS, config.maxTotalQuestions - templateQuestionCount);
+  return {
+    ...config,
+    minQuestionsPerTopic: 1,
+    maxTotalQuestions: budget,
+    minTotalQuestions: Math.min(config.minTotalQuestions, budget),
+  };
+}
+
+/**
+ * How many template questions a session keeps: all of them unless a count was
+ * requested; mixed sessions leave room for the minimum of AI questions
+ */
+function getTemplateQuestionLimit(mode: SessionSourceMode, requestedCount: number | undefined): number {
+  if (requestedCount === undefined) {
+    return Infinity;
+  }
+  return mode === 'mixed' ? requestedCount - MIN_MIXED_AI_QUESTIONS : requestedCount;
+}
+
+/**
+ * Keep at most `max` questions: the first question of each topic before any
+ * second one, in their original order
+ */
+function trimQuestions<T extends { topicName?: string }>(questions: T[], max: number): T[] {
+  if (questions.length <= max) {
+    return questions;
+  }
+
+  const seenTopics = new Set<string | undefined>();
+  const firstOfTopic = new Set<T>();
+  for (const question of questions) {
+    if (!seenTopics.has(question.topicName)) {
+      seenTopics.add(question.topicName);
+      firstOfTopic.add(question);
+    }
+  }
+
+  const kept = new Set([...firstOfTopic].slice(0, max));
+  for (const question of questions) {
+    if (kept.size >= max) break;
+    kept.add(question);
+  }
+  return questions.filter((question) => kept.has(question));
+}
+
+/**
+ * Level for a session whose seniority came from the rules alone: when the
+ * rules were unsure, ask the AI provider (see seniority.ts) and store its level
+ */
+async function refineSeniority(
+  session: Pick<InterviewSessionRecord, 'id' | 'roleTitle' | 'jobDescription' | 'seniorityLevel' | 'senioritySource'>
+): Promise<SeniorityLevel> {
+  if (session.senioritySource !== 'rules') {
+    return session.seniorityLevel as SeniorityLevel;
+  }
+
+  const inference = await inferSeniority(session.roleTitle, session.jobDescription);
+  if (inference.source === 'ai') {
+    await prisma.interviewSession.update({
+      where: { id: session.id },
+      data: { seniorityLevel: inference.level, senioritySource: 'ai' },
+    });
+    console.log(`Session ${session.id}: seniority inferred by AI as ${inference.level}`);
+  }
+  return inference.level;
+}
+
+/**
+ * A stage that has not moved for this long means the job was lost (e.g. the
+ * process restarted while it ran)
+ */
+const STALE_GENERATION_MS = 10 * 60 * 1000;
+
+/**
+ * Whether a session's generation is unfinished and has not progressed within
+ * the deadline; `updatedAt` moves on every stage change
+ */
+export function isGenerationStale(
+  session: Pick<InterviewSessionRecord, 'generationStage' | 'updatedAt'>,
+  now: Date = new Date()
+): boolean {
+  const unfinished = session.generationStage !== 'ready' && session.generationStage !== 'failed';
+  return unfinished && now.getTime() - session.updatedAt.getTime() > STALE_GENERATION_MS;
+}
+
+/**
+ * Record a generation failure on a session (stage `failed`, status
+ * `cancelled`). Never throws.
+ */
+export async function markGenerationFailed(sessionId: string, error: unknown): Promise<void> {
+  await prisma.interviewSession
+    .update({
+      where: { id: sessionId },
+      data: {
+        status: 'cancelled',
+        generationStage: 'failed',
+        generationError: error instanceof Error ? error.message : 'Question generation failed',
+      },
+    })
+    .catch((updateError) => console.error('Failed to record generation failure:', updateError));
+}
+
+async function setStage(sessionId: string, generationStage: GenerationStage): Promise<void> {
+  await prisma.interviewSession.update({
+    where: { id: sessionId },
+    data: { generationStage },
+  });
+}
+
+/**
+ * Run topic extraction and question generation for a session.
+ * Never throws: failures are recorded on the session (stage `failed`,
+ * status `cancelled`) so the client can surface them.
+ */
+export async function runSessionGeneration(sessionId: string): Promise<void> {
+  try {
+    const session = await prisma.interviewSession.findUniqueOrThrow({
+      where: { id: sessionId },
+    });
+    const seniorityLevel = await refineSeniority(session);
+    const language = toInterviewLanguage(session.language);
+    const mode = session.sourceMode as SessionSourceMode;
+    const options = (session.generationOptions ?? {}) as SessionGenerationOptions;
+    const config = toQuestionGenerationConfig(options);
+
+    const template = session.templateId ? await getTemplate(session.templateId) : null;
+    if (mode !== 'job-description' && !template) {
+      throw new Error('The template for this session no longer exists');
+    }
+
+    // Template content honors excludeTopics and the requested count; in mixed
+    // sessions the template's questions use part of the question budget
+    const requestedCount = getRequestedQuestionCount(options);
+    const templateTopics = (template?.topics ?? []).filter((topic) => !isTopicExcluded(topic.name, options));
+    const templateQuestions = trimQuestions(
+      (template?.questions ?? []).filter((q) => !q.topicName || !isTopicExcluded(q.topicName, options)),
+      getTemplateQuestionLimit(mode, requestedCount)
+    );
+    const aiConfig = mode === 'mixed' ? getMixedQuestionConfig(templateQuestions.length, config) : config;
+
+    if (mode === 'template' && templateQuestions.length === 0) {
+      throw new Error('No template questions are left after applying excludeTopics; exclude fewer topics');
+    }
+
+    // Stage 1: Topics - copied from the template, plus any the job description adds
+    await setStage(sessionId, 'topic-extraction');
+
+    let aiTopics: ExtractedTopic[] = [];
+
+    if (mode !== 'template') {
+      const { topics } = await extractTopicsFromJobDescription(
+        session.roleTitle,
+        session.jobDescription,
+        getAssignedPromptRef(session.promptVersions, 'topic-extraction'),
+        session.resumeText ?? undefined,
+        language
+      );
+      const covered = new Set(templateTopics.map((t) => t.name.toLowerCase()));
+      const isUncovered = (topic: ExtractedTopic) => !covered.has(topic.name.toLowerCase());
+      aiTopics = applyTopicFocus(
+        topics.filter(isUncovered),
+        options,
+        requestedCount !== undefined ? aiConfig.maxTotalQuestions : undefined
+      ).filter(isUncovered);
+
+      if (mode === 'job-description' && aiTopics.length === 0) {
+        throw new Error('No topics are left to ask about after applying excludeTopics; exclude fewer topics');
+      }
+    }
+
+    const createdTopics = await Promise.all(
+      [...templateTopics, ...aiTopics].map((topic) =>
+        prisma.interviewTopic.create({
+          data: {
+            sessionId,
+            name: topic.name,
+            description: topic.description,
+            priority: topic.priority,
+            // Template topics have no source
+            source: ('source' in topic && topic.source) || 'jd',
+          },
+        })
+      )
+    );
+
+    // Create a map of topic names to IDs
+    const topicNameToId = new Map<string, string>();
+    for (const t of createdTopics) {
+      topicNameToId.set(t.name, t.id);
+    }
+
+    // Stage 2: Questions - template questions first (human-authored), then AI questions
+    await setStage(sessionId, 'question-generation');
+
+    const questions: Array<{
+      topicName?: string;
+      question: string;
+      category: string;
+      difficulty: string;
+      expectedTopics: string[];
+      timeLimitSeconds: number;
+      authorType: QuestionAuthorType;
+      source?: QuestionSource;
+      repeatedFromId?: string;
+      referenceAnswer?: string;
+      rubric?: QuestionRubric;
+    }> = templateQuestions.map((q) => ({ ...q, authorType: 'human' }));
+
+    if (aiTopics.length > 0) {
+      const generatedQuestions = await generateInterviewQuestions(
+        session.roleTitle,
+        session.jobDescription,
+        seniorityLevel,
+        aiTopics,
+        aiConfig,
+        getAssignedPromptRef(session.promptVersions, 'question-generation'),
+        session.resumeText ?? undefined,
+        language
+      );
+      // Avoid asking what earlier sessions for similar roles already asked
+      const checkedQuestions = await avoidRepeatedQuestions(generatedQuestions.questions, {
+        sessionId,
+        roleTitle: session.roleTitle,
+        jobDescription: session.jobDescription,
+        seniorityLevel,
+        language,
+        topics: aiTopics,
+        repeatWeakQuestions: options.repeatWeakQuestions ?? false,
+      });
+      // The model does not always stop at the maximum
+      questions.push(
+        ...trimQuestions(checkedQuestions, aiConfig.maxTotalQuestions).map((q) => ({ ...q, authorType: 'ai' as const }))
+      );
+    }
+
+    if (questions.length === 0) {
+      throw new Error('No questions were generated for this session');
+    }
+
+    const questionsData = questions.map((q, index) => ({
+      sessionId,
+      topicId: q.topicName ? (topicNameToId.get(q.topicName) ?? null) : null,
+      questionNumber: index + 1,
+      question: q.question,
+      category: q.category,
+      difficulty: q.difficulty,
+      expectedTopics: q.expectedTopics,
+      timeLimitSeconds: q.timeLimitSeconds,
+      authorType: q.authorType,
+      source: q.source ?? null,
+      repeatedFromId: q.repeatedFromId ?? null,
+      referenceAnswer: q.referenceAnswer,
+      rubricMustMention: q.rubric?.mustMention ?? [],
+      rubricRedFlags: q.rubric?.redFlags ?? [],
+    }));
+
+    await prisma.interviewQuestion.createMany({
+      data: questionsData,
+    });
+
+    await prisma.interviewSession.update({
+      where: { id: sessionId },
+      data: { status: 'in-progress', generationStage: 'ready' },
+    });
+
+    console.log(
+      `Session ${sessionId} (${mode}): ${questionsData.length} questions from ${createdTopics.length} topics`
+    );
+  } catch (error) {
+    console.error(`Session ${sessionId}: question generation failed:`, error);
+
+    // Keep the session in the DB but mark it as failed
+    await markGenerationFailed(sessionId, error);
+  }
+}
@@ -0,0 +1,202 @@
+// =========================================================================
+// AI Tech Interview - Session Generation Options
+// Validates the optional generation settings, language and persona of
+// POST /api/sessions and turns them into a question generation config and
+// topic list.
+// =========================================================================
+
+import {
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  validateWithSchema,
+  QUESTION_CATEGORIES,
+  SENIORITY_LEVELS,
+  type Schema,
+  type SchemaResult,
+} from './ai-schemas';
+import { DEFAULT_QUESTION_CONFIG, type QuestionGenerationConfig } from './prompts';
+import { DEFAULT_LANGUAGE, INTERVIEW_LANGUAGES } from './languages';
+import { DEFAULT_PERSONA, INTERVIEWER_PERSONAS } from './personas';
+import type { ExtractedTopic } from '@/types/api';
+import type {
+  InterviewerPersona,
+  InterviewLanguage,
+  QuestionCategory,
+  SeniorityLevel,
+  SessionGenerationOptions,
+} from '@/types/interview';
+
+export const MIN_QUESTION_COUNT = 3;
+export const MAX_QUESTION_COUNT = 25;
+
+/**
+ * Average time one question takes, including reading it aloud and the
+ * pause before answering. Used to turn a target duration into a count.
+ */
+const SECONDS_PER_QUESTION = 150;
+
+const MAX_FOCUS_TOPICS = 10;
+
+// =========================================================================
+// Input Validation
+// =========================================================================
+
+export interface ValidatedSessionOptions {
+  generationOptions: SessionGenerationOptions;
+  seniorityOverride?: SeniorityLevel;
+  language: InterviewLanguage;
+  persona: InterviewerPersona;
+}
+
+const categoryWeights: Schema<Partial<Record<QuestionCategory, number>>> = (value, path, errors) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${path}: expected an object of category weights`);
+    return {};
+  }
+
+  const weights: Partial<Record<QuestionCategory, number>> = {};
+  for (const [category, weight] of Object.entries(value)) {
+    if (!QUESTION_CATEGORIES.includes(category as QuestionCategory)) {
+      errors.push(`${path}.${category}: expected one of ${QUESTION_CATEGORIES.join(', ')}`);
+      continue;
+    }
+    weights[category as QuestionCategory] = number({ min: 0, max: 100 })(weight, `${path}.${category}`, errors);
+  }
+
+  if (!Object.values(weights).some((weight) => weight > 0)) {
+    errors.push(`${path}: at least one category needs a weight above 0`);
+  }
+  return weights;
+};
+
+const focusTopics = optional<string[] | undefined>(array(string(), { maxLength: MAX_FOCUS_TOPICS }), undefined);
+
+const sessionOptionsShape = object<
+  SessionGenerationOptions & {
+    seniorityOverride?: SeniorityLevel;
+    language: InterviewLanguage;
+    persona: InterviewerPersona;
+  }
+>({
+  questionCount: optional<number | undefined>(
+    number({ min: MIN_QUESTION_COUNT, max: MAX_QUESTION_COUNT, integer: true }),
+    undefined
+  ),
+  durationMinutes: optional<number | undefined>(number({ min: 5, max: 60, integer: true }), undefined),
+  categoryWeights: optional<Partial<Record<QuestionCategory, number>> | undefined>(categoryWeights, undefined),
+  includeTopics: focusTopics,
+  excludeTopics: focusTopics,
+  repeatWeakQuestions: optional<boolean | undefined>(boolean(), undefined),
+  seniorityOverride: optional<SeniorityLevel | undefined>(oneOf(SENIORITY_LEVELS), undefined),
+  language: optional(oneOf(INTERVIEW_LANGUAGES), DEFAULT_LANGUAGE),
+  persona: optional(oneOf(INTERVIEWER_PERSONAS), DEFAULT_PERSONA),
+});
+
+const sessionOptionsSchema: Schema<ValidatedSessionOptions> = (value, path, errors) => {
+  const { seniorityOverride, language, persona, ...options } = sessionOptionsShape(value, path, errors);
+
+  if (options.questionCount !== undefined && options.durationMinutes !== undefined) {
+    errors.push('questionCount: set either questionCount or durationMinutes, not both');
+  }
+
+  const excluded = new Set(options.excludeTopics?.map((t) => t.toLowerCase()));
+  for (const topic of options.includeTopics ?? []) {
+    if (excluded.has(topic.toLowerCase())) {
+      errors.push(`includeTopics: "${topic}" is also in excludeTopics`);
+    }
+  }
+
+  // Drop unset fields so the stored options only contain what was chosen
+  const generationOptions = Object.fromEntries(
+    Object.entries(options).filter(([, v]) => v !== undefined)
+  ) as SessionGenerationOptions;
+
+  return { generationOptions, seniorityOverride, language, persona };
+};
+
+/**
+ * Validate the generation options, seniority override, language and
+ * persona of a create-session body
+ */
+export function validateSessionOptions(body: unknown): SchemaResult<ValidatedSessionOptions> {
+  return validateWithSchema(body, sessionOptionsSchema);
+}
+
+// =========================================================================
+// Applying Options
+// =========================================================================
+
+/**
+ * Number of questions requested, either directly or via the target duration
+ */
+export function getRequestedQuestionCount(options: SessionGenerationOptions): number | undefined {
+  if (options.questionCount !== undefined) {
+    return options.questionCount;
+  }
+  if (options.durationMinutes !== undefined) {
+    const count = Math.round((options.durationMinutes * 60) / SECONDS_PER_QUESTION);
+    return Math.min(MAX_QUESTION_COUNT, Math.max(MIN_QUESTION_COUNT, count));
+  }
+  return undefined;
+}
+
+/**
+ * Question generation config for a session's options
+ */
+export function toQuestionGenerationConfig(
+  options: SessionGenerationOptions,
+  base: QuestionGenerationConfig = DEFAULT_QUESTION_CONFIG
+): QuestionGenerationConfig {
+  const count = getRequestedQuestionCount(options);
+  return {
+    ...base,
+    ...(count !== undefined && { minTotalQuestions: count, maxTotalQuestions: count }),
+    categoryWeights: options.categoryWeights,
+  };
+}
+
+function matchesTopic(topicName: string, term: string): boolean {
+  return topicName.toLowerCase().includes(term.toLowerCase());
+}
+
+/**
+ * Whether `excludeTopics` removes a topic
+ */
+export function isTopicExcluded(topicName: string, options: SessionGenerationOptions): boolean {
+  return (options.excludeTopics ?? []).some((term) => matchesTopic(topicName, term));
+}
+
+/**
+ * Apply include/exclude focus to extracted topics. Excluded topics are
+ * dropped; included topics the extraction missed are added as top priority.
+ * With `maxTopics` (default: the requested question count) below the topic
+ * count, the lowest priority topics are dropped so every remaining topic
+ * gets at least one question.
+ */
+export function applyTopicFocus(
+  topics: ExtractedTopic[],
+  options: SessionGenerationOptions,
+  maxTopics: number | undefined = getRequestedQuestionCount(options)
+): ExtractedTopic[] {
+  const focused = topics.filter((topic) => !isTopicExcluded(topic.name, options));
+
+  for (const name of options.includeTopics ?? []) {
+    if (!focused.some((topic) => matchesTopic(topic.name, name))) {
+      focused.push({
+        name,
+        description: `Requested focus area: ${name}`,
+        priority: 1,
+        category: 'technical',
+        keywords: [name],
+      });
+    }
+  }
+
+  const prioritized = [...focused].sort((a, b) => a.priority - b.priority);
+  return maxTopics !== undefined ? prioritized.slice(0, maxTopics) : prioritized;
+}
@@ -0,0 +1,215 @@
+// =========================================================================
+// AI Tech Interview - Speech Metrics
+// Deterministic delivery metrics for a recorded answer: pace, filler
+// words, repetitions, and pauses from the recognizer's word timings
+// =========================================================================
+
+import { DEFAULT_LANGUAGE } from './languages';
+import type { InterviewLanguage, SpeechMetrics, WordTiming } from '@/types/interview';
+
+/**
+ * Conversational pace in words per minute; answers outside it read as
+ * rushed or halting
+ */
+export const TYPICAL_PACE = { min: 110, max: 170 };
+
+/**
+ * Pauses longer than this are called out in feedback
+ */
+export const LONG_PAUSE_MS = 3000;
+
+/**
+ * Hesitation sounds per language, which are not counted again as
+ * repetitions ("um um")
+ */
+const HESITATIONS: Record<InterviewLanguage, string[]> = {
+  'en-US': ['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'hmm'],
+  'es-ES': ['eh', 'ehh', 'em', 'mmm', 'hmm'],
+  'pt-BR': ['hã', 'ahn', 'hum', 'éh', 'hmm'],
+};
+
+/**
+ * Words and phrases counted as fillers wherever they appear, besides the
+ * hesitation sounds
+ */
+const FILLERS: Record<InterviewLanguage, { words: string[]; phrases: string[] }> = {
+  'en-US': { words: ['basically', 'actually', 'like'], phrases: ['you know', 'i mean'] },
+  'es-ES': { words: ['pues', 'bueno', 'vale'], phrases: ['o sea', 'en plan', 'es decir'] },
+  'pt-BR': { words: ['né', 'tipo', 'basicamente'], phrases: ['tipo assim', 'sei lá', 'quer dizer'] },
+};
+
+/**
+ * Words after which the English "like" is a verb or comparison, not a
+ * filler ("I would like", "it looks like")
+ */
+const LIKE_NOT_FILLER_AFTER = new Set([
+  'would', "i'd", "we'd", "you'd", "they'd", 'look', 'looks', 'looked', 'seem', 'seems', 'feel', 'feels', 'felt',
+  'sound', 'sounds', 'something', 'anything', 'nothing', 'things', 'more', 'much', 'not', "don't", "didn't",
+]);
+
+/**
+ * Longest phrase checked for immediate repetition, in words
+ */
+const MAX_REPEATED_PHRASE = 3;
+
+/**
+ * Answer data the metrics are computed from, as stored on a response
+ */
+export interface SpeechMetricsInput {
+  transcription: string | null;
+  durationSeconds: number | null;
+  /** WordTiming[] from the speech recognizer (a JSON column) */
+  wordTimings?: unknown;
+  /** Language the answer was given in; selects the filler words */
+  language?: InterviewLanguage;
+}
+
+/**
+ * Lowercase words of a transcript without punctuation
+ */
+function toWords(transcription: string): string[] {
+  return transcription
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s-]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Occurrences of each filler word or phrase in a transcript
+ */
+export function countFillerWords(
+  transcription: string,
+  language: InterviewLanguage = DEFAULT_LANGUAGE
+): Record<string, number> {
+  const words = toWords(transcription);
+  const { phrases } = FILLERS[language];
+  const fillerWords = new Set([...HESITATIONS[language], ...FILLERS[language].words]);
+  const fillers: Record<string, number> = {};
+  const add = (filler: string) => {
+    fillers[filler] = (fillers[filler] ?? 0) + 1;
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const phrase = phrases.find((p) => words.slice(i, i + p.split(' ').length).join(' ') === p);
+    if (phrase) {
+      add(phrase);
+      i += phrase.split(' ').length - 1;
+    } else if (
+      fillerWords.has(words[i]) &&
+      !(language === 'en-US' && words[i] === 'like' && LIKE_NOT_FILLER_AFTER.has(words[i - 1]))
+    ) {
+      add(words[i]);
+    }
+  }
+  return fillers;
+}
+
+/**
+ * Words or phrases of up to MAX_REPEATED_PHRASE words said twice in a row,
+ * ignoring hesitation sounds in between
+ */
+function countRepetitions(transcription: string, language: InterviewLanguage): number {
+  const hesitations = new Set(HESITATIONS[language]);
+  const words = toWords(transcription).filter((word) => !hesitations.has(word));
+  let count = 0;
+
+  for (let i = 0; i < words.length; ) {
+    let repeated = 0;
+    for (let size = MAX_REPEATED_PHRASE; size >= 1 && repeated === 0; size--) {
+      const phrase = words.slice(i, i + size).join(' ');
+      if (i + 2 * size <= words.length && phrase === words.slice(i + size, i + 2 * size).join(' ')) {
+        repeated = size;
+      }
+    }
+    if (repeated > 0) {
+      count++;
+      i += repeated;
+    } else {
+      i++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Longest gap between words and the share of the recording without speech.
+ * Silence before the first word counts towards the ratio but not as a pause.
+ */
+function measurePauses(wordTimings: WordTiming[], durationSeconds: number | null) {
+  const words = [...wordTimings].sort((a, b) => a.offsetMs - b.offsetMs);
+  let longestPauseMs = 0;
+  let spokenMs = 0;
+
+  words.forEach((word, i) => {
+    spokenMs += word.durationMs;
+    if (i > 0) {
+      const previous = words[i - 1];
+      longestPauseMs = Math.max(longestPauseMs, word.offsetMs - (previous.offsetMs + previous.durationMs));
+    }
+  });
+
+  const last = words[words.length - 1];
+  const totalMs = Math.max((durationSeconds ?? 0) * 1000, last.offsetMs + last.durationMs);
+
+  return {
+    longestPauseMs,
+    silenceRatio: Math.round(Math.min(1, Math.max(0, 1 - spokenMs / totalMs)) * 100) / 100,
+  };
+}
+
+/**
+ * Compute delivery metrics for an answer. Pause metrics are only included
+ * when the recognizer's word timings are available.
+ */
+export function computeSpeechMetrics({
+  transcription,
+  durationSeconds,
+  wordTimings,
+  language = DEFAULT_LANGUAGE,
+}: SpeechMetricsInput): SpeechMetrics {
+  const text = transcription ?? '';
+  const timings = (wordTimings as WordTiming[] | null | undefined) ?? [];
+  const wordCount = toWords(text).length;
+  const fillers = countFillerWords(text, language);
+  const fillerCount = Object.values(fillers).reduce((sum, count) => sum + count, 0);
+
+  return {
+    wordCount,
+    wordsPerMinute: durationSeconds ? Math.round(wordCount / (durationSeconds / 60)) : undefined,
+    fillerCount,
+    fillerRate: wordCount > 0 ? Math.round((fillerCount / wordCount) * 1000) / 1000 : 0,
+    fillers,
+    repetitionCount: countRepetitions(text, language),
+    ...(timings.length > 0 && measurePauses(timings, durationSeconds)),
+  };
+}
+
+/**
+ * Stored metrics of a response, or metrics computed from it for responses
+ * saved before they were measured
+ */
+export function getSpeechMetrics(response: SpeechMetricsInput & { speechMetrics: unknown }): SpeechMetrics {
+  return (response.speechMetrics as SpeechMetrics | null) ?? computeSpeechMetrics(response);
+}
+
+/**
+ * Metrics as a list of lines for the evaluation prompt
+ */
+export function describeSpeechMetrics(metrics: SpeechMetrics): string {
+  const fillers = Object.entries(metrics.fillers)
+    .sort((a, b) => b[1] - a[1])
+    .map(([filler, count]) => `"${filler}" x${count}`)
+    .join(', ');
+
+  return [
+    metrics.wordsPerMinute !== undefined &&
+      `- Pace: ${metrics.wordsPerMinute} words per minute (typical conversational pace is ${TYPICAL_PACE.min}-${TYPICAL_PACE.max})`,
+    `- Filler words: ${metrics.fillerCount} (${(metrics.fillerRate * 100).toFixed(1)}% of ${metrics.wordCount} words)${fillers ? `: ${fillers}` : ''}`,
+    `- Repeated words or phrases: ${metrics.repetitionCount}`,
+    metrics.longestPauseMs !== undefined && `- Longest pause: ${(metrics.longestPauseMs / 1000).toFixed(1)}s`,
+    metrics.silenceRatio !== undefined && `- Silence: ${Math.round(metrics.silenceRatio * 100)}% of the recording`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
@@ -0,0 +1,81 @@
+// =========================================================================
+// AI Tech Interview - Azure Blob Storage Backend
+// Works against Azure Storage accounts and the Azurite emulator
+// =========================================================================
+
+import { Readable } from 'stream';
+import { BlobServiceClient, type ContainerClient } from '@azure/storage-blob';
+import type { StorageBackend } from './types';
+
+/**
+ * Create a backend that stores objects as block blobs in one container
+ * (AZURE_STORAGE_CONTAINER, default `interview-audio`), created on first use
+ */
+export function createAzureBlobStorage(): StorageBackend {
+  const connectionString = process.env.AZURE_STORAGE_CONNECTION_STRING;
+  if (!connectionString) {
+    throw new Error('Missing required environment variable: AZURE_STORAGE_CONNECTION_STRING');
+  }
+
+  const container = BlobServiceClient.fromConnectionString(connectionString).getContainerClient(
+    process.env.AZURE_STORAGE_CONTAINER || 'interview-audio'
+  );
+  let ready: Promise<ContainerClient> | null = null;
+
+  const getContainer = () => {
+    ready ??= container.createIfNotExists().then(
+      () => container,
+      (error) => {
+        ready = null;
+        throw error;
+      }
+    );
+    return ready;
+  };
+
+  return {
+    name: 'azure-blob',
+
+    async put(key, data, contentType) {
+      const client = await getContainer();
+      await client.getBlockBlobClient(key).uploadData(data, {
+        blobHTTPHeaders: { blobContentType: contentType },
+      });
+    },
+
+    async stat(key) {
+      const client = await getContainer();
+      try {
+        const properties = await client.getBlobClient(key).getProperties();
+        return {
+          size: properties.contentLength ?? 0,
+          contentType: properties.contentType ?? 'application/octet-stream',
+        };
+      } catch (error) {
+        if ((error as { statusCode?: number }).statusCode === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async read(key, range) {
+      const client = await getContainer();
+      const download = await client
+        .getBlobClient(key)
+        .download(range?.start ?? 0, range ? range.end - range.start + 1 : undefined);
+
+      if (!download.readableStreamBody) {
+        throw new Error(`Blob ${key} has no content stream`);
+      }
+      return Readable.toWeb(download.readableStreamBody as Readable) as ReadableStream<Uint8Array>;
+    },
+
+    async delete(key) {
+      const client = await getContainer();
+      await client.deleteBlob(key, { deleteSnapshots: 'include' }).catch((error) => {
+        if ((error as { statusCode?: number }).statusCode !== 404) throw error;
+      });
+    },
+  };
+}
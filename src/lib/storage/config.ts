@@ -0,0 +1,30 @@
+// =========================================================================
+// AI Tech Interview - Storage Configuration
+// =========================================================================
+
+import type { StorageBackendName } from './types';
+
+const BACKEND_NAMES: StorageBackendName[] = ['local', 'azure-blob'];
+
+/**
+ * Resolve the configured backend from STORAGE_BACKEND.
+ *
+ * When STORAGE_BACKEND is not set, Azure Blob Storage is used if a
+ * connection string is configured; otherwise files are kept on the local
+ * filesystem.
+ */
+export function getConfiguredStorageName(): StorageBackendName {
+  const configured = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+
+  if (!configured) {
+    return process.env.AZURE_STORAGE_CONNECTION_STRING ? 'azure-blob' : 'local';
+  }
+
+  if (!BACKEND_NAMES.includes(configured as StorageBackendName)) {
+    throw new Error(
+      `Invalid STORAGE_BACKEND "${configured}". Expected one of: ${BACKEND_NAMES.join(', ')}`
+    );
+  }
+
+  return configured as StorageBackendName;
+}
@@ -0,0 +1,59 @@
+// =========================================================================
+// AI Tech Interview - Storage Registry
+// Selects the blob storage backend from STORAGE_BACKEND
+// =========================================================================
+
+import { getConfiguredStorageName } from './config';
+import { createAzureBlobStorage } from './azure-blob';
+import { createLocalStorage } from './local';
+import type { ByteRange, StorageBackend, StorageBackendName } from './types';
+
+export type { ByteRange, StorageBackend, StorageBackendName, StoredObjectInfo } from './types';
+
+const BACKEND_FACTORIES: Record<StorageBackendName, () => StorageBackend> = {
+  local: createLocalStorage,
+  'azure-blob': createAzureBlobStorage,
+};
+
+// =========================================================================
+// Backend Singleton
+// =========================================================================
+
+let backend: StorageBackend | null = null;
+
+/**
+ * Get the configured storage backend (created once per process)
+ */
+export function getStorage(): StorageBackend {
+  if (!backend) {
+    backend = BACKEND_FACTORIES[getConfiguredStorageName()]();
+  }
+  return backend;
+}
+
+// =========================================================================
+// Range Requests
+// =========================================================================
+
+/**
+ * Parse a single-range `Range` header (`bytes=0-499`, `bytes=500-`,
+ * `bytes=-500`) against an object size. Returns null when the whole object
+ * should be sent (no header, or a form this parser does not handle, such as
+ * multiple ranges) and 'unsatisfiable' when the range lies outside it.
+ */
+export function parseByteRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header && /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const length = Number(match[2]);
+    return length === 0 || size === 0 ? 'unsatisfiable' : { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start >= size || end < start ? 'unsatisfiable' : { start, end };
+}
@@ -0,0 +1,70 @@
+// =========================================================================
+// AI Tech Interview - Local Filesystem Storage Backend
+// =========================================================================
+
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import type { StorageBackend } from './types';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.webm': 'audio/webm',
+  '.ogg': 'audio/ogg',
+  '.mp4': 'audio/mp4',
+  '.m4a': 'audio/mp4',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+};
+
+/**
+ * Create a backend that stores objects as files under LOCAL_STORAGE_DIR
+ * (default `./storage`). The content type is derived from the key's
+ * extension.
+ */
+export function createLocalStorage(): StorageBackend {
+  const root = path.resolve(process.env.LOCAL_STORAGE_DIR || 'storage');
+
+  // Keys are generated server-side, but never let one escape the root
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async stat(key) {
+      try {
+        const info = await stat(resolve(key));
+        return {
+          size: info.size,
+          contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] ?? 'application/octet-stream',
+        };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async read(key, range) {
+      const stream = createReadStream(resolve(key), range);
+      return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+    },
+
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
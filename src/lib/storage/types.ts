@@ -0,0 +1,40 @@
+// =========================================================================
+// AI Tech Interview - Storage Types
+// Contract shared by every blob storage backend
+// =========================================================================
+
+/**
+ * Supported storage implementations (selected via STORAGE_BACKEND)
+ */
+export type StorageBackendName = 'local' | 'azure-blob';
+
+/**
+ * Inclusive byte range within a stored object
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Metadata of a stored object
+ */
+export interface StoredObjectInfo {
+  size: number;
+  contentType: string;
+}
+
+/**
+ * A backend that stores binary objects under slash-separated keys
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  /** Create or overwrite an object */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Object metadata, or null when it does not exist */
+  stat(key: string): Promise<StoredObjectInfo | null>;
+  /** Stream an object, or part of it */
+  read(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+  /** Remove an object; missing objects are ignored */
+  delete(key: string): Promise<void>;
+}
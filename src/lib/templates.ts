@@ -0,0 +1,246 @@
+// =========================================================================
+// AI Tech Interview - Interview Templates
+// Curated, versioned question banks. Publishing a template with an
+// existing slug creates a new version; sessions keep pointing at the
+// exact version they were created from.
+// =========================================================================
+
+import { prisma, retryOnUniqueConstraint } from './prisma';
+import {
+  array,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  validateWithSchema,
+  QUESTION_CATEGORIES,
+  QUESTION_DIFFICULTIES,
+  SENIORITY_LEVELS,
+  type Schema,
+  type SchemaResult,
+} from './ai-schemas';
+import type {
+  CreateTemplateInput,
+  InterviewTemplate,
+  InterviewTemplateSummary,
+  QuestionCategory,
+  QuestionDifficulty,
+  SeniorityLevel,
+} from '@/types/interview';
+
+// =========================================================================
+// Input Validation
+// =========================================================================
+
+const slug: Schema<string> = (value, path, errors) => {
+  const result = string()(value, path, errors);
+  if (result && !/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(result)) {
+    errors.push(`${path}: must contain only lowercase letters, numbers and dashes`);
+  }
+  return result;
+};
+
+const templateInputShape = object<CreateTemplateInput>({
+  slug,
+  name: string({ minLength: 3 }),
+  description: optional<string | undefined>(string({ minLength: 0 }), undefined),
+  roleTitle: string({ minLength: 10 }),
+  seniorityLevel: oneOf(SENIORITY_LEVELS),
+  topics: array(
+    object<CreateTemplateInput['topics'][number]>({
+      name: string(),
+      description: optional<string | undefined>(string({ minLength: 0 }), undefined),
+      priority: optional(number({ min: 1, max: 3, integer: true }), 2),
+    }),
+    { minLength: 1 }
+  ),
+  questions: array(
+    object<CreateTemplateInput['questions'][number]>({
+      question: string({ minLength: 10 }),
+      category: oneOf(QUESTION_CATEGORIES),
+      difficulty: oneOf(QUESTION_DIFFICULTIES),
+      expectedTopics: array(string(), { minLength: 1, maxLength: 8 }),
+      timeLimitSeconds: number({ min: 15, max: 900, integer: true }),
+      topicName: optional<string | undefined>(string(), undefined),
+    }),
+    { minLength: 1, maxLength: 30 }
+  ),
+});
+
+const templateInputSchema: Schema<CreateTemplateInput> = (value, path, errors) => {
+  const input = templateInputShape(value, path, errors);
+  const topicNames = new Set<string>();
+  (input.topics ?? []).forEach((t, i) => {
+    if (topicNames.has(t.name)) {
+      errors.push(`topics[${i}].name: "${t.name}" is used by another topic`);
+    }
+    topicNames.add(t.name);
+  });
+  (input.questions ?? []).forEach((q, i) => {
+    if (q.topicName && !topicNames.has(q.topicName)) {
+      errors.push(`questions[${i}].topicName: "${q.topicName}" is not one of the template topics`);
+    }
+  });
+  return input;
+};
+
+/**
+ * Validate a request body for publishing a template
+ */
+export function validateTemplateInput(body: unknown): SchemaResult<CreateTemplateInput> {
+  return validateWithSchema(body, templateInputSchema);
+}
+
+// =========================================================================
+// Queries
+// =========================================================================
+
+function findTemplateById(id: string) {
+  return prisma.interviewTemplate.findUnique({
+    where: { id },
+    include: {
+      topics: { orderBy: { priority: 'asc' } },
+      questions: { orderBy: { position: 'asc' }, include: { topic: true } },
+    },
+  });
+}
+
+type TemplateRecord = NonNullable<Awaited<ReturnType<typeof findTemplateById>>>;
+
+function toInterviewTemplate(record: TemplateRecord): InterviewTemplate {
+  return {
+    id: record.id,
+    slug: record.slug,
+    version: record.version,
+    name: record.name,
+    description: record.description ?? undefined,
+    roleTitle: record.roleTitle,
+    seniorityLevel: record.seniorityLevel as SeniorityLevel,
+    topics: record.topics.map((t) => ({
+      id: t.id,
+      name: t.name,
+      description: t.description ?? undefined,
+      priority: t.priority,
+    })),
+    questions: record.questions.map((q) => ({
+      id: q.id,
+      topicName: q.topic?.name,
+      position: q.position,
+      question: q.question,
+      category: q.category as QuestionCategory,
+      difficulty: q.difficulty as QuestionDifficulty,
+      expectedTopics: q.expectedTopics,
+      timeLimitSeconds: q.timeLimitSeconds,
+    })),
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Get a template version with its topics and questions
+ */
+export async function getTemplate(id: string): Promise<InterviewTemplate | null> {
+  const record = await findTemplateById(id);
+  return record ? toInterviewTemplate(record) : null;
+}
+
+/**
+ * List templates by name, only the newest version of each slug unless
+ * `allVersions` is set
+ */
+export async function listTemplates(allVersions = false): Promise<InterviewTemplateSummary[]> {
+  // Ordered by slug so the newest version comes first even if it was renamed
+  const records = await prisma.interviewTemplate.findMany({
+    orderBy: [{ slug: 'asc' }, { version: 'desc' }],
+    include: { _count: { select: { topics: true, questions: true } } },
+  });
+
+  const seen = new Set<string>();
+  const summaries: InterviewTemplateSummary[] = [];
+
+  for (const record of records) {
+    if (!allVersions && seen.has(record.slug)) continue;
+    seen.add(record.slug);
+
+    summaries.push({
+      id: record.id,
+      slug: record.slug,
+      version: record.version,
+      name: record.name,
+      description: record.description ?? undefined,
+      roleTitle: record.roleTitle,
+      seniorityLevel: record.seniorityLevel as SeniorityLevel,
+      topicCount: record._count.topics,
+      questionCount: record._count.questions,
+      createdAt: record.createdAt.toISOString(),
+    });
+  }
+
+  return summaries.sort((a, b) => a.name.localeCompare(b.name) || b.version - a.version);
+}
+
+// =========================================================================
+// Publishing
+// =========================================================================
+
+/**
+ * Publish a template. The first publish of a slug is version 1; each
+ * later publish creates the next version and leaves older ones untouched.
+ */
+export async function publishTemplate(input: CreateTemplateInput): Promise<InterviewTemplate> {
+  // Concurrent publishes of a slug race for the same version; the loser retries
+  const id = await retryOnUniqueConstraint(`Template ${input.slug}`, () =>
+    prisma.$transaction(async (tx) => {
+      const latest = await tx.interviewTemplate.findFirst({
+        where: { slug: input.slug },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      const template = await tx.interviewTemplate.create({
+        data: {
+          slug: input.slug,
+          version: (latest?.version ?? 0) + 1,
+          name: input.name,
+          description: input.description,
+          roleTitle: input.roleTitle,
+          seniorityLevel: input.seniorityLevel,
+          topics: {
+            create: input.topics.map((t) => ({
+              name: t.name,
+              description: t.description,
+              priority: t.priority,
+            })),
+          },
+        },
+        include: { topics: true },
+      });
+
+      const topicNameToId = new Map(template.topics.map((t) => [t.name, t.id]));
+
+      await tx.templateQuestion.createMany({
+        data: input.questions.map((q, index) => ({
+          templateId: template.id,
+          topicId: q.topicName ? (topicNameToId.get(q.topicName) ?? null) : null,
+          position: index + 1,
+          question: q.question,
+          category: q.category,
+          difficulty: q.difficulty,
+          expectedTopics: q.expectedTopics,
+          timeLimitSeconds: q.timeLimitSeconds,
+        })),
+      });
+
+      return template.id;
+    })
+  );
+
+  console.log(`Published template ${input.slug} (${id})`);
+
+  const template = await getTemplate(id);
+  if (!template) {
+    throw new Error(`Template ${id} not found after publishing`);
+  }
+  return template;
+}
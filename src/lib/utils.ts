@@ -98,3 +98,23 @@ export function getScoreBgColor(score: number): string {
   if (score >= 40) return 'bg-orange-100';
   return 'bg-red-100';
 }
+
+/**
+ * Get badge color classes for a seniority level or question difficulty
+ */
+export function getSeniorityBadgeColor(level: string): string {
+  switch (level) {
+    case 'junior':
+      return 'bg-green-100 text-green-700';
+    case 'mid':
+      return 'bg-blue-100 text-blue-700';
+    case 'senior':
+      return 'bg-purple-100 text-purple-700';
+    case 'staff':
+      return 'bg-orange-100 text-orange-700';
+    case 'principal':
+      return 'bg-red-100 text-red-700';
+    default:
+      return 'bg-gray-100 text-gray-700';
+  }
+}
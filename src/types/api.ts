@@ -14,6 +14,17 @@ import type {
   EvaluationFeedback,
   QuestionCategory,
   QuestionDifficulty,
+  SessionStatus,
+  GenerationStage,
+  PerformanceBand,
+  InterviewTemplate,
+  InterviewTemplateSummary,
+  QuestionRubric,
+  RubricResult,
+  ScoreSpread,
+  QuestionSource,
+  SeniorityInference,
+  SeniorityLevel,
 } from './interview';
 
 // =========================================================================
@@ -48,6 +59,18 @@ export interface CreateSessionResponse {
   session: InterviewSession;
 }
 
+/**
+ * Progress of the background question generation job
+ */
+export interface SessionProgressResponse {
+  sessionId: string;
+  status: SessionStatus;
+  stage: GenerationStage;
+  error?: string;
+  topicCount: number;
+  questionCount: number;
+}
+
 export interface GetSessionResponse {
   session: InterviewSession;
   questions: InterviewQuestion[];
@@ -82,6 +105,9 @@ export interface GeneratedQuestionRaw {
   expectedTopics: string[];
   timeLimitSeconds: number;
   topicName?: string; // The topic this question covers
+  source?: QuestionSource;
+  referenceAnswer?: string;
+  rubric?: QuestionRubric;
 }
 
 /**
@@ -93,6 +119,8 @@ export interface ExtractedTopic {
   priority: number;
   category: 'technical' | 'system-design' | 'domain' | 'soft-skills' | 'methodology';
   keywords: string[];
+  /** Only `resume` or `gap` when a resume was cross-referenced */
+  source?: QuestionSource;
 }
 
 /**
@@ -110,6 +138,184 @@ export interface AIQuestionGenerationResponse {
   topics?: ExtractedTopic[]; // Included for reference
 }
 
+/**
+ * Question being replaced, with the topic it belongs to
+ */
+export interface RegenerationQuestionInput {
+  question: string;
+  category: QuestionCategory;
+  difficulty: QuestionDifficulty;
+  expectedTopics: string[];
+  topicName?: string;
+  topicDescription?: string;
+  source?: QuestionSource;
+}
+
+/**
+ * Follow-up question proposed by the model
+ */
+export interface GeneratedFollowUpRaw {
+  question: string;
+  expectedTopics: string[];
+  timeLimitSeconds: number;
+}
+
+/**
+ * AI decision on whether a previous answer warrants a probing follow-up
+ */
+export interface AIFollowUpResponse {
+  shouldFollowUp: boolean;
+  reason: string;
+  followUp?: GeneratedFollowUpRaw;
+}
+
+/**
+ * AI seniority assessment, used when title and description rules are inconclusive
+ */
+export interface AISeniorityResponse {
+  level: SeniorityLevel;
+  confidence: number;
+  rationale: string;
+}
+
+/**
+ * Response from the follow-up endpoint (`followUp` is null when none is needed)
+ */
+export interface CreateFollowUpResponse {
+  followUp: InterviewQuestion | null;
+  reason: string;
+}
+
+/**
+ * Request to edit a question. The reference answer and rubric can be edited
+ * at any time (null clears them); the other fields only until the interview
+ * starts.
+ */
+export interface UpdateQuestionRequest {
+  question?: string;
+  category?: QuestionCategory;
+  difficulty?: QuestionDifficulty;
+  expectedTopics?: string[];
+  timeLimitSeconds?: number;
+  referenceAnswer?: string | null;
+  rubric?: QuestionRubric | null;
+}
+
+/**
+ * Response from editing, regenerating or adding a question
+ */
+export interface UpdateQuestionResponse {
+  question: InterviewQuestion;
+}
+
+/**
+ * Request to add a user-written question at the end of a session.
+ * Difficulty defaults to the session's seniority level and the time limit
+ * to the category default.
+ */
+export interface CreateQuestionRequest {
+  question: string;
+  category: QuestionCategory;
+  difficulty?: QuestionDifficulty;
+  expectedTopics?: string[];
+  timeLimitSeconds?: number;
+  topicId?: string;
+}
+
+/**
+ * Request to reorder a session's questions: every question id, in the new order
+ */
+export interface ReorderQuestionsRequest {
+  questionIds: string[];
+}
+
+/**
+ * A session's questions after a reorder or delete, renumbered
+ */
+export interface ListQuestionsResponse {
+  questions: InterviewQuestion[];
+}
+
+// =========================================================================
+// Seniority API Types
+// =========================================================================
+
+export interface InferSeniorityRequest {
+  roleTitle: string;
+  jobDescription?: string;
+}
+
+export interface InferSeniorityResponse {
+  inference: SeniorityInference;
+}
+
+// =========================================================================
+// Document Import API Types
+// =========================================================================
+
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'markdown';
+
+/**
+ * Text extracted from an uploaded job posting, for review before generation
+ */
+export interface ExtractJobPostingResponse {
+  fileName: string;
+  format: DocumentFormat;
+  jobDescription: string;
+  /** Detected from the posting; absent when it does not state one clearly */
+  roleTitle?: string;
+  companyName?: string;
+  /** True when the text was cut off at the length limit */
+  truncated: boolean;
+}
+
+/**
+ * Text extracted from an uploaded resume, for review before generation
+ */
+export interface ExtractResumeResponse {
+  fileName: string;
+  format: DocumentFormat;
+  resumeText: string;
+  truncated: boolean;
+}
+
+// =========================================================================
+// Template API Types
+// =========================================================================
+
+export interface ListTemplatesResponse {
+  templates: InterviewTemplateSummary[];
+}
+
+export interface GetTemplateResponse {
+  template: InterviewTemplate;
+}
+
+// =========================================================================
+// Prompt Registry API Types
+// =========================================================================
+
+/**
+ * A prompt version with its A/B weight and, for evaluation prompts, the
+ * score distribution of current evaluations that used it
+ */
+export interface PromptVariantSummary {
+  promptId: string;
+  version: number;
+  /** "id@version" */
+  ref: string;
+  source: 'built-in' | 'file' | 'database';
+  weight: number;
+  evaluationCount?: number;
+  averageOverallScore?: number;
+  minOverallScore?: number;
+  maxOverallScore?: number;
+}
+
+export interface ListPromptVariantsResponse {
+  prompts: PromptVariantSummary[];
+}
+
 // =========================================================================
 // Speech API Types
 // =========================================================================
@@ -145,6 +351,7 @@ export interface EvaluateResponseResponse {
   scores: EvaluationScores;
   overallScore: number;
   feedback: EvaluationFeedback;
+  rubricResult?: RubricResult;
 }
 
 /**
@@ -162,6 +369,90 @@ export interface EvaluateSessionResponse {
   summary: SessionResults['summary'];
 }
 
+/**
+ * Summary of a session evaluation run
+ */
+export interface EvaluationRunSummary {
+  sessionId: string;
+  totalResponses: number;
+  evaluatedResponses: number;
+  averageScore: number;
+  performanceBand: PerformanceBand;
+}
+
+/**
+ * Request to evaluate a session's responses in bulk
+ */
+export interface BatchEvaluationRequest {
+  sessionId: string;
+  /** Restrict evaluation to these responses (e.g. retrying failures) */
+  responseIds?: string[];
+}
+
+/**
+ * A response that could not be evaluated during a batch run
+ */
+export interface EvaluationFailure {
+  responseId: string;
+  questionId: string;
+  questionNumber: number;
+  message: string;
+}
+
+/**
+ * Response from batch evaluation
+ */
+export interface BatchEvaluationResponse extends EvaluationRunSummary {
+  evaluations: Array<{
+    responseId: string;
+    questionId: string;
+    questionNumber: number;
+    overallScore: number;
+    performanceBand: string;
+    evaluation: ResponseEvaluation;
+  }>;
+  failures: EvaluationFailure[];
+}
+
+/**
+ * Every evaluation version of a response, newest first
+ */
+export interface ListEvaluationVersionsResponse {
+  evaluations: ResponseEvaluation[];
+}
+
+/**
+ * A single evaluation version (re-evaluation or change of current version)
+ */
+export interface EvaluationVersionResponse {
+  evaluation: ResponseEvaluation;
+}
+
+/**
+ * Server-sent events emitted by GET /api/evaluate/stream
+ * (the SSE `event:` field is the `type`, `data:` is the JSON payload)
+ */
+export type EvaluationStreamEvent =
+  | {
+      type: 'evaluation';
+      data: { questionId: string; questionNumber: number; evaluation: ResponseEvaluation };
+    }
+  | { type: 'evaluation-failed'; data: EvaluationFailure }
+  | { type: 'complete'; data: EvaluationRunSummary }
+  | { type: 'stream-error'; data: { message: string } };
+
+/**
+ * Minimal question data needed for evaluation
+ */
+export interface EvaluationQuestionInput {
+  question: string;
+  category: QuestionCategory;
+  difficulty: QuestionDifficulty;
+  expectedTopics: string[];
+  referenceAnswer?: string;
+  rubric?: QuestionRubric;
+}
+
 /**
  * Raw evaluation from Azure OpenAI
  */
@@ -169,6 +460,12 @@ export interface AIEvaluationResponse {
   scores: EvaluationScores;
   overallScore: number;
   feedback: EvaluationFeedback;
+  rubric?: RubricResult; // Only requested when the question has a rubric
+  sampleCount?: number; // Set when several samples were aggregated
+  scoreSpread?: ScoreSpread;
+  weightProfileVersion?: string; // Weights used to compute overallScore
+  promptVersion?: string;
+  model?: string;
 }
 
 // =========================================================================
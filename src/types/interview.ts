@@ -7,14 +7,48 @@
 // =========================================================================
 
 /**
- * Seniority level extracted from role title
+ * Seniority level of the role. Staff and principal are the senior IC
+ * tracks, with org-wide rather than team-level scope.
  */
-export type SeniorityLevel = 'junior' | 'mid' | 'senior';
+export type SeniorityLevel = 'junior' | 'mid' | 'senior' | 'staff' | 'principal';
+
+/**
+ * Seniority inferred from the role title and job description
+ */
+export interface SeniorityInference {
+  level: SeniorityLevel;
+  /** 0-1; low values mean the title and description gave few or conflicting signals */
+  confidence: number;
+  rationale: string;
+  /** `ai` when the rules were inconclusive and the model was consulted */
+  source: 'rules' | 'ai';
+}
 
 /**
  * Interview session status
  */
-export type SessionStatus = 'created' | 'in-progress' | 'completed' | 'cancelled';
+export type SessionStatus = 'created' | 'in-progress' | 'completed' | 'partially-evaluated' | 'cancelled';
+
+/**
+ * Stage of the background job that generates topics and questions
+ */
+export type GenerationStage = 'pending' | 'topic-extraction' | 'question-generation' | 'ready' | 'failed';
+
+/**
+ * Where a session's questions come from
+ */
+export type SessionSourceMode = 'job-description' | 'template' | 'mixed';
+
+/**
+ * Language an interview is conducted in: questions, speech and feedback
+ */
+export type InterviewLanguage = 'en-US' | 'es-ES' | 'pt-BR';
+
+/**
+ * Interviewer persona: the voice, speaking style and tone of the spoken
+ * introduction and transitions
+ */
+export type InterviewerPersona = 'friendly' | 'neutral' | 'stern';
 
 /**
  * Interview session representing a practice interview
@@ -25,19 +59,64 @@ export interface InterviewSession {
   companyName?: string;
   jobDescription: string;
   seniorityLevel: SeniorityLevel;
+  language: InterviewLanguage;
+  persona: InterviewerPersona;
   status: SessionStatus;
+  generationStage: GenerationStage;
+  sourceMode: SessionSourceMode;
+  templateId?: string;
+  generationOptions?: SessionGenerationOptions;
+  /** Candidate resume, cross-referenced with the job description during generation */
+  resumeText?: string;
+  /** Prompt version per prompt id ("id@version"), assigned by A/B split */
+  promptVersions?: Record<string, string>;
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
 }
 
+/**
+ * Optional question generation settings chosen when creating a session.
+ * They shape the AI-generated questions; template questions are copied as-is.
+ * A type alias (not an interface) so it can be stored in a JSON column.
+ */
+export type SessionGenerationOptions = {
+  /** Exact number of questions to generate; mutually exclusive with `durationMinutes` */
+  questionCount?: number;
+  /** Target interview length, converted to a question count */
+  durationMinutes?: number;
+  /** Relative weight per category; categories left out get no questions */
+  categoryWeights?: Partial<Record<QuestionCategory, number>>;
+  /** Topics to cover even if the job description does not mention them */
+  includeTopics?: string[];
+  /** Topics to leave out (case-insensitive match on topic names) */
+  excludeTopics?: string[];
+  /**
+   * Re-ask earlier questions answered poorly (score below 60) when a new
+   * question repeats them, instead of replacing the repeat
+   */
+  repeatWeakQuestions?: boolean;
+};
+
 /**
  * Input for creating a new interview session
  */
-export interface CreateSessionInput {
+export interface CreateSessionInput extends SessionGenerationOptions {
   roleTitle: string;
   companyName?: string;
   jobDescription: string;
+  /** Question source (default: `job-description`) */
+  mode?: SessionSourceMode;
+  /** Template to copy questions from; required for `template` and `mixed` modes */
+  templateId?: string;
+  /** Seniority to use instead of inferring it from the role title or template */
+  seniorityOverride?: SeniorityLevel;
+  /** Candidate resume (plain text); ignored in `template` mode */
+  resumeText?: string;
+  /** Interview language (default: `en-US`) */
+  language?: InterviewLanguage;
+  /** Interviewer persona (default: `neutral`) */
+  persona?: InterviewerPersona;
 }
 
 // =========================================================================
@@ -52,7 +131,19 @@ export type QuestionCategory = 'technical' | 'system-design' | 'behavioral' | 'p
 /**
  * Question difficulty level
  */
-export type QuestionDifficulty = 'junior' | 'mid' | 'senior';
+export type QuestionDifficulty = 'junior' | 'mid' | 'senior' | 'staff' | 'principal';
+
+/**
+ * Who wrote a question: generated by the AI or curated by a human in a template
+ */
+export type QuestionAuthorType = 'ai' | 'human';
+
+/**
+ * What a generated question (or its topic) is based on: a job description
+ * requirement, experience the candidate's resume claims, or a job
+ * requirement the resume does not show
+ */
+export type QuestionSource = 'jd' | 'resume' | 'gap';
 
 /**
  * Generated interview question
@@ -62,6 +153,7 @@ export interface InterviewQuestion {
   sessionId: string;
   topicId?: string;
   topicName?: string;
+  parentQuestionId?: string; // Set when this is a follow-up to another question
   questionNumber: number;
   question: string;
   category: QuestionCategory;
@@ -69,9 +161,33 @@ export interface InterviewQuestion {
   expectedTopics: string[];
   timeLimitSeconds: number;
   timeLimit: number; // Alias for timeLimitSeconds (used in UI)
+  authorType: QuestionAuthorType;
+  /** Set for AI-generated questions; absent for template questions and follow-ups */
+  source?: QuestionSource;
+  /** Earlier question re-asked because it was answered poorly */
+  repeatedFromId?: string;
+  referenceAnswer?: string;
+  rubric?: QuestionRubric;
   createdAt: string;
 }
 
+/**
+ * Grading rubric for a question
+ */
+export interface QuestionRubric {
+  mustMention: string[]; // Points a strong answer covers
+  redFlags: string[]; // Statements that indicate a misconception
+}
+
+/**
+ * How an answer measured up against its question's rubric
+ */
+export interface RubricResult {
+  hits: string[]; // mustMention points the answer covered
+  misses: string[]; // mustMention points the answer did not cover
+  redFlags: string[]; // Red flags the answer raised
+}
+
 /**
  * Response time limits by category (in seconds)
  */
@@ -82,6 +198,71 @@ export const QUESTION_TIME_LIMITS: Record<QuestionCategory, { min: number; max:
   'problem-solving': { min: 90, max: 240, default: 150 },
 };
 
+// =========================================================================
+// Template Types
+// =========================================================================
+
+/**
+ * Topic covered by an interview template
+ */
+export interface TemplateTopic {
+  id: string;
+  name: string;
+  description?: string;
+  priority: number;
+}
+
+/**
+ * Human-authored question stored in an interview template
+ */
+export interface TemplateQuestion {
+  id: string;
+  topicName?: string;
+  position: number;
+  question: string;
+  category: QuestionCategory;
+  difficulty: QuestionDifficulty;
+  expectedTopics: string[];
+  timeLimitSeconds: number;
+}
+
+/**
+ * Curated, versioned question bank (e.g. "Backend Node.js senior loop")
+ */
+export interface InterviewTemplate {
+  id: string;
+  slug: string;
+  version: number;
+  name: string;
+  description?: string;
+  roleTitle: string;
+  seniorityLevel: SeniorityLevel;
+  topics: TemplateTopic[];
+  questions: TemplateQuestion[];
+  createdAt: string;
+}
+
+/**
+ * Template without its topics and questions, for listings
+ */
+export interface InterviewTemplateSummary extends Omit<InterviewTemplate, 'topics' | 'questions'> {
+  topicCount: number;
+  questionCount: number;
+}
+
+/**
+ * Input for publishing a template (a new version when the slug exists)
+ */
+export interface CreateTemplateInput {
+  slug: string;
+  name: string;
+  description?: string;
+  roleTitle: string;
+  seniorityLevel: SeniorityLevel;
+  topics: Array<Pick<TemplateTopic, 'name' | 'description' | 'priority'>>;
+  questions: Array<Omit<TemplateQuestion, 'id' | 'position'>>;
+}
+
 // =========================================================================
 // Response Types
 // =========================================================================
@@ -91,6 +272,38 @@ export const QUESTION_TIME_LIMITS: Record<QuestionCategory, { min: number; max:
  */
 export type ResponseStatus = 'pending' | 'recording' | 'transcribing' | 'completed' | 'skipped';
 
+/**
+ * A recognized word and when it was spoken, relative to the start of the
+ * recording
+ */
+export interface WordTiming {
+  word: string;
+  offsetMs: number;
+  durationMs: number;
+}
+
+/**
+ * Delivery metrics measured from a recorded answer (see speech-metrics.ts).
+ * Pause and silence figures need recognizer word timings. A type alias, not
+ * an interface, so it can be stored directly in a JSON column.
+ */
+export type SpeechMetrics = {
+  wordCount: number;
+  /** Absent when the answer has no recorded duration */
+  wordsPerMinute?: number;
+  fillerCount: number;
+  /** Share of words that are fillers (0-1) */
+  fillerRate: number;
+  /** Occurrences of each filler word or phrase used */
+  fillers: Record<string, number>;
+  /** Words or short phrases immediately repeated ("the the", "I think I think") */
+  repetitionCount: number;
+  /** Longest gap between two words */
+  longestPauseMs?: number;
+  /** Share of the recording without speech (0-1) */
+  silenceRatio?: number;
+};
+
 /**
  * User's response to a question
  */
@@ -101,6 +314,8 @@ export interface QuestionResponse {
   status: ResponseStatus;
   audioUrl?: string;
   transcription?: string;
+  wordTimings?: WordTiming[];
+  speechMetrics?: SpeechMetrics;
   durationSeconds?: number;
   startedAt?: string;
   completedAt?: string;
@@ -111,7 +326,8 @@ export interface QuestionResponse {
 // =========================================================================
 
 /**
- * Individual scoring criteria
+ * Individual scoring criteria. Percentages are the default weights;
+ * `src/lib/scoring.ts` holds the per-category weight profiles.
  */
 export interface EvaluationScores {
   /** How well the answer addresses the question (25%) */
@@ -149,9 +365,27 @@ export interface ResponseEvaluation {
   overallScore: number;
   feedback: EvaluationFeedback;
   performanceBand: PerformanceBand;
+  rubricResult?: RubricResult; // Set when the question has a rubric
+  sampleCount: number; // Evaluator runs aggregated into these scores
+  scoreSpread?: ScoreSpread; // Min/max across samples (only when sampleCount > 1)
+  weightProfileVersion?: string; // Unset for scores the model computed itself
+  version: number; // 1 for the first evaluation, incremented on each re-evaluation
+  isCurrent: boolean; // The version shown in results
+  promptVersion?: string; // Evaluation prompt used (unset for legacy rows)
+  model?: string; // Model or deployment that produced the scores
   evaluatedAt: string;
 }
 
+/**
+ * Lowest and highest score seen across evaluator samples
+ */
+export type ScoreRange = { min: number; max: number };
+
+/**
+ * Score range per dimension, plus the overall score
+ */
+export type ScoreSpread = Record<keyof EvaluationScores | 'overall', ScoreRange>;
+
 /**
  * Performance band based on overall score
  */